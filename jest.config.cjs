@@ -2,6 +2,8 @@ module.exports = {
     preset: 'ts-jest',
     testEnvironment: 'jsdom',
     testMatch: ['**/__tests__/**/*.ts?(x)', '**/?(*.)+(spec|test).ts?(x)'],
+    // Shared test helpers, not tests themselves
+    testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
     collectCoverageFrom: [
         'src/**/*.{ts,tsx}',
         '!src/**/*.d.ts',
@@ -1,5 +1,6 @@
 // Mock browser APIs that might not be available in the test environment
 global.AudioContext = jest.fn().mockImplementation(() => ({
+    sampleRate: 48000,
     createMediaStreamSource: jest.fn().mockReturnValue({
         connect: jest.fn()
     }),
@@ -45,6 +45,38 @@ export default [
       terser()
     ]
   },
+  // Node entry point: transcribeFile/transcribeStream on top of the environment-neutral core
+  {
+    input: 'src/node.ts',
+    output: [
+      {
+        file: 'dist/node.cjs',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/node.mjs',
+        format: 'esm',
+        sourcemap: true,
+      }
+    ],
+    external: [
+      ...Object.keys(packageJson.dependencies || {}),
+      'fs/promises'
+    ],
+    plugins: [
+      resolve({ preferBuiltins: true }),
+      commonjs(),
+      typescript({ tsconfig: './tsconfig.json' }),
+      babel({
+        babelHelpers: 'bundled',
+        exclude: 'node_modules/**',
+        extensions: ['.ts'],
+        presets: [['@babel/preset-env', { targets: { node: '16' } }], '@babel/preset-typescript']
+      }),
+      terser()
+    ]
+  },
   // TypeScript declaration files
   {
     input: 'src/index.ts',
@@ -57,5 +89,17 @@ export default [
       ...Object.keys(packageJson.dependencies || {}),
       ...Object.keys(packageJson.peerDependencies || {})
     ]
+  },
+  {
+    input: 'src/node.ts',
+    output: {
+      file: 'dist/node.d.ts',
+      format: 'es',
+    },
+    plugins: [dts()],
+    external: [
+      ...Object.keys(packageJson.dependencies || {}),
+      'fs/promises'
+    ]
   }
 ];
@@ -0,0 +1,115 @@
+import { transcribeAudioFile } from '../audio-file';
+import { AudioFormatError } from '../errors';
+import { createPcmWav, credentialsProvider, finalResult, joinChunks, mockTranscribe } from './helpers';
+
+jest.mock('@aws-sdk/client-transcribe-streaming', () => jest.requireActual('./helpers').createSdkMock());
+
+// Counts the frames sent to Transcribe and finishes with one final result. With a start time, the
+// result is at that point of the audio received, in seconds
+let framesReceived: number;
+const mockCountingTranscribe = (startTime: (samples: Int16Array) => number = () => 0) => mockTranscribe(chunks => {
+    const samples = joinChunks(chunks);
+    framesReceived = samples.length;
+    return [finalResult('voicemail', undefined, startTime(samples))];
+});
+
+// A mono 16-bit WAV file with a constant tone level, or the level of each frame
+const createWav = (sampleRate: number, frames: number, level = (_frame: number) => 3000): ArrayBuffer =>
+    createPcmWav(sampleRate, 1, Int16Array.from({ length: frames }, (_value, frame) => level(frame))).buffer as ArrayBuffer;
+
+jest.useFakeTimers();
+
+describe('transcribeAudioFile', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+        mockCountingTranscribe();
+    });
+
+    afterEach(() => {
+        delete (window as { OfflineAudioContext?: unknown }).OfflineAudioContext;
+    });
+
+    test('should transcribe a WAV blob and report progress', async () => {
+        const onProgress = jest.fn();
+        const file = new Blob([createWav(16000, 16000)], { type: 'audio/wav' });
+
+        const result = await transcribeAudioFile(file, { credentialsProvider, speed: 0, onProgress });
+
+        expect(result.transcript).toBe('voicemail');
+        expect(framesReceived).toBe(16000);
+        expect(onProgress).toHaveBeenCalledTimes(4);
+        expect(onProgress).toHaveBeenLastCalledWith({ position: 1, duration: 1, progress: 1 });
+        const progress = onProgress.mock.calls.map(([event]) => event.progress);
+        expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    });
+
+    test('should resample an ArrayBuffer to the session rate', async () => {
+        await transcribeAudioFile(createWav(8000, 8000), { credentialsProvider, speed: 0 });
+
+        expect(Math.abs(framesReceived - 16000)).toBeLessThan(100);
+    });
+
+    test('should send the audio at the requested multiple of real time', async () => {
+        const onProgress = jest.fn();
+        let done = false;
+
+        // One second in 250ms chunks, sent at twice real time
+        transcribeAudioFile(createWav(16000, 16000), { credentialsProvider, speed: 2, bufferSize: 4000, onProgress })
+            .then(() => { done = true; });
+
+        await jest.advanceTimersByTimeAsync(260);
+        expect(onProgress).toHaveBeenCalledTimes(2);
+        expect(done).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(250);
+        expect(onProgress).toHaveBeenCalledTimes(4);
+        expect(done).toBe(true);
+    });
+
+    test('should keep result times at the position in the file after silence', async () => {
+        // Speech again after the silence, found in the audio as received
+        mockCountingTranscribe(samples => samples.findIndex((sample, i) => i > 16000 && sample !== 0) / 16000);
+
+        // One second of speech, three of silence, then one more of speech
+        const wav = createWav(16000, 5 * 16000, frame => frame < 16000 || frame >= 4 * 16000 ? 3000 : 0);
+        const result = await transcribeAudioFile(wav, { credentialsProvider, speed: 0 });
+
+        expect(framesReceived).toBe(5 * 16000);
+        expect(result.segments[0].startTime).toBe(4);
+    });
+
+    test('should hold back silence in files with skipSilence', async () => {
+        const wav = createWav(16000, 5 * 16000, frame => frame < 16000 || frame >= 4 * 16000 ? 3000 : 0);
+        await transcribeAudioFile(wav, { credentialsProvider, speed: 0, skipSilence: true });
+
+        expect(framesReceived).toBeLessThan(4 * 16000);
+    });
+
+    test('should decode other formats with decodeAudioData', async () => {
+        const decodeAudioData = jest.fn((data, resolve) => resolve({
+            sampleRate: 44100,
+            numberOfChannels: 1,
+            getChannelData: () => new Float32Array(44100).fill(0.1)
+        }));
+        (window as { OfflineAudioContext?: unknown }).OfflineAudioContext = jest.fn(() => ({ decodeAudioData }));
+
+        const result = await transcribeAudioFile(new Blob([new Uint8Array([0xff, 0xfb, 0x90, 0x00])]), {
+            credentialsProvider,
+            speed: 0
+        });
+
+        expect(decodeAudioData).toHaveBeenCalled();
+        expect(result.transcript).toBe('voicemail');
+        expect(Math.abs(framesReceived - 16000)).toBeLessThan(100);
+    });
+
+    test('should reject files the browser cannot decode', async () => {
+        (window as { OfflineAudioContext?: unknown }).OfflineAudioContext = jest.fn(() => ({
+            decodeAudioData: jest.fn((data, resolve, reject) => reject(new DOMException('Unable to decode audio data')))
+        }));
+
+        await expect(transcribeAudioFile(new ArrayBuffer(16), { credentialsProvider }))
+            .rejects.toBeInstanceOf(AudioFormatError);
+    });
+});
@@ -0,0 +1,140 @@
+import {
+    MediaElementAudioSource,
+    MediaStreamAudioSource,
+    MicrophoneAudioSource,
+    listInputDevices
+} from '../audio-source';
+import { MicrophoneError } from '../errors';
+
+const createAudioContext = () => ({
+    destination: {},
+    createMediaStreamSource: jest.fn().mockImplementation(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+    createMediaElementSource: jest.fn().mockImplementation(() => ({ connect: jest.fn(), disconnect: jest.fn() }))
+});
+
+const createStream = () => {
+    const track = { stop: jest.fn() };
+    return { track, stream: { getTracks: () => [track] } as unknown as MediaStream };
+};
+
+describe('MicrophoneAudioSource', () => {
+    const getUserMedia = navigator.mediaDevices.getUserMedia as jest.Mock;
+
+    beforeEach(() => {
+        getUserMedia.mockClear();
+    });
+
+    test('should request the chosen device and release it on disconnect', async () => {
+        const { stream, track } = createStream();
+        getUserMedia.mockResolvedValueOnce(stream);
+        const audioContext = createAudioContext();
+        const source = new MicrophoneAudioSource({ deviceId: 'usb-headset', constraints: { echoCancellation: false } });
+
+        const node = await source.connect(audioContext as unknown as AudioContext);
+
+        expect(getUserMedia).toHaveBeenCalledWith({
+            audio: {
+                channelCount: 1,
+                sampleSize: 16,
+                echoCancellation: false,
+                deviceId: { exact: 'usb-headset' }
+            }
+        });
+        expect(audioContext.createMediaStreamSource).toHaveBeenCalledWith(stream);
+
+        source.disconnect();
+        expect(node.disconnect).toHaveBeenCalled();
+        expect(track.stop).toHaveBeenCalled();
+    });
+
+    test('should only keep the stream of the latest connection', async () => {
+        const first = createStream();
+        const second = createStream();
+        const third = createStream();
+        let grantFirst: (stream: MediaStream) => void = () => {};
+        getUserMedia
+            .mockImplementationOnce(() => new Promise(resolve => { grantFirst = resolve; }))
+            .mockResolvedValueOnce(second.stream)
+            .mockResolvedValueOnce(third.stream);
+        const audioContext = createAudioContext() as unknown as AudioContext;
+        const source = new MicrophoneAudioSource();
+
+        // Connected again while the first connection waits for permission
+        const pending = source.connect(audioContext);
+        await source.connect(audioContext);
+        grantFirst(first.stream);
+        await pending;
+
+        expect(first.track.stop).toHaveBeenCalled();
+        expect(second.track.stop).not.toHaveBeenCalled();
+
+        // A connection replaces the stream it still holds
+        await source.connect(audioContext);
+        expect(second.track.stop).toHaveBeenCalled();
+
+        source.disconnect();
+        expect(third.track.stop).toHaveBeenCalled();
+    });
+
+    test('should reject with a MicrophoneError', async () => {
+        getUserMedia.mockRejectedValueOnce(Object.assign(new Error('Not found'), { name: 'NotFoundError' }));
+        const source = new MicrophoneAudioSource();
+
+        await expect(source.connect(createAudioContext() as unknown as AudioContext)).rejects.toBeInstanceOf(MicrophoneError);
+    });
+});
+
+describe('MediaStreamAudioSource', () => {
+    test('should leave the stream running on disconnect', async () => {
+        const { stream, track } = createStream();
+        const audioContext = createAudioContext();
+        const source = new MediaStreamAudioSource(stream);
+
+        const node = await source.connect(audioContext as unknown as AudioContext);
+        source.disconnect();
+
+        expect(audioContext.createMediaStreamSource).toHaveBeenCalledWith(stream);
+        expect(node.disconnect).toHaveBeenCalled();
+        expect(track.stop).not.toHaveBeenCalled();
+    });
+});
+
+describe('MediaElementAudioSource', () => {
+    test('should capture the element as a stream when supported', async () => {
+        const { stream } = createStream();
+        const element = document.createElement('video') as HTMLVideoElement & { captureStream?: () => MediaStream };
+        element.captureStream = jest.fn().mockReturnValue(stream);
+        const audioContext = createAudioContext();
+
+        await new MediaElementAudioSource(element).connect(audioContext as unknown as AudioContext);
+
+        expect(audioContext.createMediaStreamSource).toHaveBeenCalledWith(stream);
+        expect(audioContext.createMediaElementSource).not.toHaveBeenCalled();
+    });
+
+    test('should route the element through the context and keep it audible otherwise', async () => {
+        const element = document.createElement('audio');
+        const audioContext = createAudioContext();
+
+        const node = await new MediaElementAudioSource(element).connect(audioContext as unknown as AudioContext);
+
+        expect(audioContext.createMediaElementSource).toHaveBeenCalledWith(element);
+        expect(node.connect).toHaveBeenCalledWith(audioContext.destination);
+    });
+});
+
+describe('listInputDevices', () => {
+    test('should only return audio inputs', async () => {
+        const devices = [
+            { kind: 'audioinput', deviceId: 'default', label: 'Default' },
+            { kind: 'videoinput', deviceId: 'camera', label: 'Camera' },
+            { kind: 'audiooutput', deviceId: 'speakers', label: 'Speakers' },
+            { kind: 'audioinput', deviceId: 'usb-headset', label: 'USB Headset' }
+        ];
+        Object.assign(navigator.mediaDevices, { enumerateDevices: jest.fn().mockResolvedValue(devices) });
+
+        const inputs = await listInputDevices();
+
+        expect(inputs.map(device => device.deviceId)).toEqual(['default', 'usb-headset']);
+    });
+});
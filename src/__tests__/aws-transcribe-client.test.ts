@@ -1,4 +1,13 @@
+import {
+    StartMedicalStreamTranscriptionCommand,
+    StartStreamTranscriptionCommand,
+    TranscribeStreamingClient
+} from '@aws-sdk/client-transcribe-streaming';
 import { AWSTranscribeClient, TranscribeCredentials } from '../aws-transcribe-client';
+import { CredentialsError, MicrophoneError, TabCoordinationError, TranscribeError } from '../errors';
+import { LocalStorageCredentialStore } from '../credential-store';
+import { MemoryUsageStore, UsageMeter } from '../usage-meter';
+import { TabCoordinator, TabFollower } from '../tab-coordinator';
 
 // Mock AWS SDK
 jest.mock('@aws-sdk/client-transcribe-streaming', () => {
@@ -14,6 +23,7 @@ jest.mock('@aws-sdk/client-transcribe-streaming', () => {
             destroy: jest.fn()
         })),
         StartStreamTranscriptionCommand: jest.fn(),
+        StartMedicalStreamTranscriptionCommand: jest.fn(),
         LanguageCode: {
             EN_US: 'en-US',
             ES_US: 'es-US',
@@ -41,9 +51,11 @@ const mockCredentialsProvider = jest.fn().mockImplementation(async (): Promise<T
 });
 
 // Mock global browser APIs
-global.AudioContext = jest.fn().mockImplementation(() => ({
+const createAudioContextMock = (sampleRate = 16000) => ({
+    sampleRate,
     createMediaStreamSource: jest.fn().mockReturnValue({
-        connect: jest.fn()
+        connect: jest.fn(),
+        disconnect: jest.fn()
     }),
     createScriptProcessor: jest.fn().mockReturnValue({
         connect: jest.fn(),
@@ -53,7 +65,9 @@ global.AudioContext = jest.fn().mockImplementation(() => ({
     }),
     destination: {},
     close: jest.fn()
-}));
+});
+
+global.AudioContext = jest.fn().mockImplementation(() => createAudioContextMock());
 
 // Mock navigator mediaDevices
 Object.defineProperty(global.navigator, 'mediaDevices', {
@@ -91,6 +105,81 @@ Object.defineProperty(global, 'localStorage', {
 // Mock setTimeout and clearTimeout
 jest.useFakeTimers();
 
+// Helpers to drive the capture graph and inspect what was sent to Transcribe
+const getScriptProcessor = () => {
+    const audioContext = (global.AudioContext as jest.Mock).mock.results[0].value;
+    return audioContext.createScriptProcessor.mock.results[0].value;
+};
+
+const feedAudio = (amplitude: number) => {
+    const samples = new Float32Array(4096).fill(amplitude);
+    getScriptProcessor().onaudioprocess({ inputBuffer: { getChannelData: () => samples } });
+};
+
+const collectSentChunks = async (commandIndex = 0): Promise<Int16Array[]> => {
+    const { AudioStream } = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[commandIndex][0];
+    const chunks: Int16Array[] = [];
+    for await (const event of AudioStream) {
+        chunks.push(new Int16Array(event.AudioEvent.AudioChunk.buffer));
+    }
+    return chunks;
+};
+
+// A TranscriptResultStream the test pushes events or a failure into
+const createResultStream = () => {
+    const pending: Array<{ resolve: (result: IteratorResult<unknown>) => void; reject: (error: Error) => void }> = [];
+    const queued: Array<{ event?: unknown; error?: Error }> = [];
+    const settle = () => {
+        while (pending.length > 0 && queued.length > 0) {
+            const { resolve, reject } = pending.shift()!;
+            const { event, error } = queued.shift()!;
+            if (error) {
+                reject(error);
+            } else {
+                resolve({ value: event, done: false });
+            }
+        }
+    };
+
+    return {
+        response: {
+            TranscriptResultStream: {
+                [Symbol.asyncIterator]: () => ({
+                    next: () => new Promise<IteratorResult<unknown>>((resolve, reject) => {
+                        pending.push({ resolve, reject });
+                        settle();
+                    })
+                })
+            }
+        },
+        emit: (event: unknown) => {
+            queued.push({ event });
+            settle();
+        },
+        fail: (error: Error) => {
+            queued.push({ error });
+            settle();
+        }
+    };
+};
+
+const mockTranscribeSend = (send: () => Promise<unknown>) => {
+    (TranscribeStreamingClient as unknown as jest.Mock).mockImplementationOnce(() => ({
+        send: jest.fn().mockImplementation(send),
+        destroy: jest.fn()
+    }));
+};
+
+const finalResult = (transcript: string, startTime?: number) => ({
+    TranscriptEvent: {
+        Transcript: {
+            Results: [{ IsPartial: false, StartTime: startTime, Alternatives: [{ Transcript: transcript }] }]
+        }
+    }
+});
+
+const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+
 describe('AWSTranscribeClient', () => {
     let client: AWSTranscribeClient;
 
@@ -170,14 +259,1221 @@ describe('AWSTranscribeClient', () => {
             onError: errorMock
         });
 
-        // Attempt to start, which should fail
-        try {
-            await failingClient.start();
-        } catch (e) {
-            // Expected to throw, do nothing
-        }
+        // Attempt to start, which should fail once the retries are used up
+        const starting = failingClient.start().catch(() => {});
+        await jest.runAllTimersAsync();
+        await starting;
 
         // Verify the error handler was called
-        expect(errorMock).toHaveBeenCalledWith(expect.stringContaining('Credentials error'));
+        expect(failingProvider).toHaveBeenCalledTimes(3);
+        expect(errorMock).toHaveBeenCalledWith(expect.any(CredentialsError));
+        expect(errorMock).toHaveBeenCalledWith(expect.objectContaining({
+            code: 'CREDENTIALS_FAILED',
+            message: expect.stringContaining('Credentials error')
+        }));
+    });
+
+    test('should keep credentials in memory by default', async () => {
+        await client.start();
+        client.stop();
+        await client.start();
+        client.stop();
+
+        expect(mockCredentialsProvider).toHaveBeenCalledTimes(1);
+        expect(localStorageMock.getItem('aws_transcribe_credentials_v2')).toBeNull();
+    });
+
+    test('should keep credentials per credentialsKey in the credential store', async () => {
+        const credentialStore = new LocalStorageCredentialStore();
+        client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, credentialStore, credentialsKey: 'user-1' });
+
+        await client.start();
+        client.stop();
+
+        expect(await credentialStore.get('aws_transcribe_credentials_v2:user-1')).toMatchObject({ accessKeyId: 'test-access-key' });
+        expect(await credentialStore.get('aws_transcribe_credentials_v2:user-2')).toBeNull();
+    });
+
+    test('should ask for new credentials after clearCredentials', async () => {
+        await client.start();
+        client.stop();
+        await client.clearCredentials();
+        await client.start();
+        client.stop();
+
+        expect(mockCredentialsProvider).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject start with a MicrophoneError when permission is denied', async () => {
+        const onError = jest.fn();
+        client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, onError });
+        const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+        (navigator.mediaDevices.getUserMedia as jest.Mock).mockRejectedValueOnce(denied);
+
+        const result = client.start();
+
+        await expect(result).rejects.toBeInstanceOf(MicrophoneError);
+        await expect(result).rejects.toMatchObject({
+            code: 'MICROPHONE_PERMISSION_DENIED',
+            recoverable: false,
+            cause: denied
+        });
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'MICROPHONE_PERMISSION_DENIED' }));
+        expect(mockCredentialsProvider).not.toHaveBeenCalled();
+    });
+
+    describe('voice activity gating', () => {
+        test('should not send silence to Transcribe', async () => {
+            await client.start();
+
+            feedAudio(0);
+            feedAudio(0);
+
+            client.stop();
+            expect(await collectSentChunks()).toHaveLength(0);
+        });
+
+        test('should flush the pre-roll buffer when speech starts', async () => {
+            const onSpeechStart = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                sampleRate: 16000,
+                preRollDuration: 300,
+                onSpeechStart
+            });
+            await client.start();
+
+            // 300ms at 16kHz holds two 4096-sample buffers, so the oldest one is dropped
+            feedAudio(0.001);
+            feedAudio(0);
+            feedAudio(0);
+            feedAudio(0.5);
+
+            client.stop();
+            const chunks = await collectSentChunks();
+            expect(chunks).toHaveLength(3);
+            expect(chunks[0][0]).toBe(0);
+            expect(chunks[2][0]).toBe(Math.floor(0.5 * 32767));
+            expect(onSpeechStart).toHaveBeenCalledTimes(1);
+        });
+
+        test('should keep sending during the hangover period only', async () => {
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                preRollDuration: 0,
+                hangoverDuration: 300
+            });
+            await client.start();
+
+            feedAudio(0.5);
+            jest.advanceTimersByTime(200);
+            feedAudio(0);
+            jest.advanceTimersByTime(200);
+            feedAudio(0);
+
+            client.stop();
+            expect(await collectSentChunks()).toHaveLength(2);
+        });
+
+        test('should send keep-alive silence during long pauses', async () => {
+            await client.start();
+
+            jest.advanceTimersByTime(10000);
+            feedAudio(0);
+            feedAudio(0);
+
+            client.stop();
+            const chunks = await collectSentChunks();
+            expect(chunks).toHaveLength(1);
+            expect(chunks[0].every(sample => sample === 0)).toBe(true);
+        });
+    });
+
+    describe('pause and resume', () => {
+        test('should stop sending speech while paused and keep the stream open', async () => {
+            const onStateChange = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                preRollDuration: 0,
+                hangoverDuration: 0,
+                onStateChange
+            });
+            await client.start();
+
+            expect(client.pause()).toBe(true);
+            expect(client.getState()).toMatchObject({ isListening: true, isPaused: true });
+            expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ isPaused: true }));
+
+            feedAudio(0.5);
+            jest.advanceTimersByTime(10000);
+            feedAudio(0.5);
+
+            expect(client.resume()).toBe(true);
+            expect(client.getState().isPaused).toBe(false);
+            feedAudio(0.5);
+
+            client.stop();
+            const chunks = await collectSentChunks();
+            // Keep-alive silence while paused, then speech again
+            expect(chunks).toHaveLength(2);
+            expect(chunks[0].every(sample => sample === 0)).toBe(true);
+            expect(chunks[1][0]).toBe(Math.floor(0.5 * 32767));
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+            expect(global.AudioContext).toHaveBeenCalledTimes(1);
+        });
+
+        test('should end speech and cancel the silence countdown on pause', async () => {
+            const onSpeechEnd = jest.fn();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, onSpeechEnd });
+            await client.start();
+
+            feedAudio(0.5);
+            client.pause();
+            expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+            expect(client.getState().isActivelySpeaking).toBe(false);
+
+            // The max silence timeout never starts, so a long pause doesn't stop the client
+            jest.advanceTimersByTime(120000);
+            expect(client.getState().isListening).toBe(true);
+
+            client.stop();
+            expect(client.getState().isPaused).toBe(false);
+        });
+
+        test('should only count audio sent as minutes used', async () => {
+            const usageMeter = new UsageMeter({ store: new MemoryUsageStore() });
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, usageMeter });
+            await client.start();
+
+            feedAudio(0.5);
+            feedAudio(0.5);
+            client.pause();
+            jest.advanceTimersByTime(120000);
+            client.resume();
+            feedAudio(0);
+            client.stop();
+
+            // Neither the two minutes paused nor the silence count, only the speech and its pre-roll and hangover
+            const sentSeconds = (await collectSentChunks()).reduce((total, chunk) => total + chunk.length, 0) / 16000;
+            expect(sentSeconds).toBeGreaterThan(0.5);
+            expect(sentSeconds).toBeLessThan(10);
+            expect(await usageMeter.getMinutesUsed()).toBeCloseTo(sentSeconds / 60);
+        });
+
+        test('should only pause while listening', () => {
+            expect(client.pause()).toBe(false);
+            expect(client.resume()).toBe(false);
+        });
+    });
+
+    describe('resampling', () => {
+        test('should resample the hardware rate to the Transcribe rate', async () => {
+            (global.AudioContext as jest.Mock).mockImplementationOnce(() => createAudioContextMock(48000));
+            await client.start();
+
+            feedAudio(0.5);
+
+            client.stop();
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command.MediaSampleRateHertz).toBe(16000);
+            const chunks = await collectSentChunks();
+            expect(chunks).toHaveLength(1);
+            expect(chunks[0].length).toBe(Math.ceil(4096 / 3));
+        });
+
+        test('should send 8 kHz audio when configured', async () => {
+            (global.AudioContext as jest.Mock).mockImplementationOnce(() => createAudioContextMock(44100));
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, sampleRate: 8000 });
+            await client.start();
+
+            client.stop();
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command.MediaSampleRateHertz).toBe(8000);
+            expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+                audio: { channelCount: 1, sampleSize: 16 }
+            });
+        });
+    });
+
+    describe('AudioWorklet capture', () => {
+        const port = { onmessage: null as ((e: { data: unknown }) => void) | null };
+        const AudioContextMock = global.AudioContext as jest.Mock;
+
+        beforeEach(() => {
+            Object.defineProperty(AudioContextMock.prototype, 'audioWorklet', { value: {}, configurable: true });
+            Object.defineProperty(window, 'AudioWorkletNode', {
+                value: jest.fn().mockImplementation(() => ({ port, connect: jest.fn(), disconnect: jest.fn() })),
+                configurable: true,
+                writable: true
+            });
+            URL.createObjectURL = jest.fn().mockReturnValue('blob:capture-processor');
+            URL.revokeObjectURL = jest.fn();
+        });
+
+        afterEach(() => {
+            delete AudioContextMock.prototype.audioWorklet;
+            delete (window as { AudioWorkletNode?: unknown }).AudioWorkletNode;
+        });
+
+        const mockAudioContextWithWorklet = (addModule: jest.Mock) => {
+            const audioContext = { ...createAudioContextMock(), audioWorklet: { addModule } };
+            AudioContextMock.mockImplementationOnce(() => audioContext);
+            return audioContext;
+        };
+
+        test('should capture through the worklet when it is available', async () => {
+            const addModule = jest.fn().mockResolvedValue(undefined);
+            const audioContext = mockAudioContextWithWorklet(addModule);
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider });
+
+            await client.start();
+
+            expect(addModule).toHaveBeenCalledWith('blob:capture-processor');
+            expect(audioContext.createScriptProcessor).not.toHaveBeenCalled();
+            const workletOptions = (window.AudioWorkletNode as unknown as jest.Mock).mock.calls[0][2];
+            expect(workletOptions.processorOptions).toEqual({
+                bufferSize: 4096,
+                channelCount: 1,
+                vadThreshold: 0.02,
+                resampler: null
+            });
+
+            // Chunks posted by the processor go through the same VAD gate
+            port.onmessage!({ data: { pcm: new Int16Array(4096), hasVoice: false } });
+            port.onmessage!({ data: { pcm: new Int16Array(4096).fill(1000), hasVoice: true } });
+
+            client.stop();
+            expect(port.onmessage).toBeNull();
+            const chunks = await collectSentChunks();
+            expect(chunks).toHaveLength(2);
+            expect(chunks[1][0]).toBe(1000);
+        });
+
+        test('should fall back to ScriptProcessorNode when the worklet fails to load', async () => {
+            const addModule = jest.fn().mockRejectedValue(new Error('Blocked by CSP'));
+            const audioContext = mockAudioContextWithWorklet(addModule);
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider });
+
+            await client.start();
+
+            expect(audioContext.createScriptProcessor).toHaveBeenCalledWith(4096, 1, 1);
+            expect(client.getState().isListening).toBe(true);
+        });
+    });
+
+    describe('dual-channel capture', () => {
+        const remoteTrack = { stop: jest.fn() };
+        const remoteStream = { getTracks: () => [remoteTrack] } as unknown as MediaStream;
+
+        const mockAudioContextWithMerger = () => {
+            const merger = { connect: jest.fn(), disconnect: jest.fn() };
+            const audioContext = {
+                ...createAudioContextMock(),
+                createMediaStreamSource: jest.fn().mockImplementation(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+                createChannelMerger: jest.fn().mockReturnValue(merger)
+            };
+            (global.AudioContext as jest.Mock).mockImplementationOnce(() => audioContext);
+            return { audioContext, merger };
+        };
+
+        test('should interleave the microphone and the remote stream', async () => {
+            const { audioContext, merger } = mockAudioContextWithMerger();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                remoteStream,
+                preRollDuration: 0
+            });
+            await client.start();
+
+            const [microphoneSource, remoteSource] = audioContext.createMediaStreamSource.mock.results.map(
+                (result: jest.MockResult<{ connect: jest.Mock }>) => result.value
+            );
+            expect(audioContext.createMediaStreamSource).toHaveBeenLastCalledWith(remoteStream);
+            expect(audioContext.createChannelMerger).toHaveBeenCalledWith(2);
+            expect(microphoneSource.connect).toHaveBeenCalledWith(merger, 0, 0);
+            expect(remoteSource.connect).toHaveBeenCalledWith(merger, 0, 1);
+            expect(audioContext.createScriptProcessor).toHaveBeenCalledWith(4096, 2, 1);
+
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command).toMatchObject({ EnableChannelIdentification: true, NumberOfChannels: 2 });
+
+            // Only the remote party speaks, which still opens the gate
+            const microphone = new Float32Array(4096);
+            const remote = new Float32Array(4096).fill(0.5);
+            audioContext.createScriptProcessor.mock.results[0].value.onaudioprocess({
+                inputBuffer: { getChannelData: (channel: number) => (channel === 0 ? microphone : remote) }
+            });
+
+            client.stop();
+            expect(remoteTrack.stop).not.toHaveBeenCalled();
+            expect(merger.disconnect).toHaveBeenCalled();
+
+            const chunks = await collectSentChunks();
+            expect(chunks).toHaveLength(1);
+            expect(chunks[0].length).toBe(8192);
+            expect(Array.from(chunks[0].subarray(0, 4))).toEqual([0, 16383, 0, 16383]);
+        });
+
+        test('should count session time in frames', async () => {
+            const first = createResultStream();
+            const second = createResultStream();
+            mockTranscribeSend(async () => first.response);
+            mockTranscribeSend(async () => second.response);
+            mockAudioContextWithMerger();
+
+            const onResult = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                remoteStream,
+                preRollDuration: 0,
+                reconnect: { initialDelay: 100 },
+                onResult
+            });
+            await client.start();
+
+            feedAudio(0.5);
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+            await jest.advanceTimersByTimeAsync(100);
+            await flushPromises();
+
+            second.emit({ TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'r1', ChannelId: 'ch_1', IsPartial: false, StartTime: 0, Alternatives: [{ Transcript: 'Hi' }] }
+            ] } } });
+            await flushPromises();
+
+            // 4096 frames at 16 kHz, not 8192 samples
+            expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ channelId: 'ch_1', startTime: 0.256 }));
+
+            client.stop();
+        });
+    });
+
+    describe('audio sources', () => {
+        const createSource = () => {
+            const node = { connect: jest.fn(), disconnect: jest.fn() };
+            return { node, source: { connect: jest.fn().mockResolvedValue(node), disconnect: jest.fn() } };
+        };
+
+        test('should capture from the configured source instead of the microphone', async () => {
+            const { node, source } = createSource();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, audioSource: source });
+
+            await client.start();
+
+            expect(navigator.mediaDevices.getUserMedia).not.toHaveBeenCalled();
+            expect(node.connect).toHaveBeenCalledWith(getScriptProcessor());
+
+            client.stop();
+            expect(source.disconnect).toHaveBeenCalled();
+        });
+
+        test('should switch sources without restarting the Transcribe stream', async () => {
+            const first = createSource();
+            const second = createSource();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                audioSource: first.source,
+                preRollDuration: 0
+            });
+            await client.start();
+            feedAudio(0.5);
+
+            await client.setAudioSource(second.source);
+
+            const audioContext = (global.AudioContext as jest.Mock).mock.results[0].value;
+            expect(second.source.connect).toHaveBeenCalledWith(audioContext);
+            expect(second.node.connect).toHaveBeenCalledWith(getScriptProcessor());
+            expect(first.source.disconnect).toHaveBeenCalled();
+            expect(client.getState().isListening).toBe(true);
+            feedAudio(0.5);
+
+            client.stop();
+            expect(second.source.disconnect).toHaveBeenCalled();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+            expect(await collectSentChunks()).toHaveLength(2);
+        });
+
+        test('should keep the current source when the new one fails to open', async () => {
+            const first = createSource();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, audioSource: first.source });
+            await client.start();
+
+            const failing = { connect: jest.fn().mockRejectedValue(new Error('Device unplugged')), disconnect: jest.fn() };
+
+            await expect(client.setAudioSource(failing)).rejects.toMatchObject({ message: 'Device unplugged' });
+            expect(first.source.disconnect).not.toHaveBeenCalled();
+
+            client.stop();
+            expect(first.source.disconnect).toHaveBeenCalled();
+            expect(failing.disconnect).not.toHaveBeenCalled();
+        });
+
+        test('should keep capturing when the active source is set again', async () => {
+            const { node, source } = createSource();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, audioSource: source });
+            await client.start();
+
+            await client.setAudioSource(source);
+
+            expect(source.connect).toHaveBeenCalledTimes(1);
+            expect(node.connect).toHaveBeenCalledTimes(1);
+            expect(source.disconnect).not.toHaveBeenCalled();
+            client.stop();
+        });
+
+        test('should only remember the source while stopped', async () => {
+            const { source } = createSource();
+
+            await client.setAudioSource(source);
+            expect(source.connect).not.toHaveBeenCalled();
+
+            await client.start();
+            expect(source.connect).toHaveBeenCalledTimes(1);
+            client.stop();
+        });
+    });
+
+    describe('result handling', () => {
+        // Event sequences as recorded from the service, trimmed to the fields the client reads
+        const SINGLE_CHANNEL_EVENTS = [
+            { TranscriptEvent: { Transcript: { Results: [] } } },
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'r1', IsPartial: true, StartTime: 0.2, EndTime: 0.6, Alternatives: [{ Transcript: 'The' }] }
+            ] } } },
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'r1', IsPartial: true, StartTime: 0.2, EndTime: 1.1, Alternatives: [{ Transcript: 'The quick' }] }
+            ] } } },
+            // The final result and the first partial of the next one arrive together
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'r1', IsPartial: false, StartTime: 0.2, EndTime: 1.4, Alternatives: [{ Transcript: 'The quick fox.' }] },
+                { ResultId: 'r2', IsPartial: true, StartTime: 2.0, EndTime: 2.3, Alternatives: [{ Transcript: 'Jumps' }] }
+            ] } } },
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'r2', IsPartial: false, StartTime: 2.0, EndTime: 2.8, Alternatives: [{ Transcript: 'Jumps over.' }] }
+            ] } } }
+        ];
+
+        const DUAL_CHANNEL_EVENTS = [
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'a1', ChannelId: 'ch_0', IsPartial: true, StartTime: 0.1, Alternatives: [{ Transcript: 'Hello' }] },
+                { ResultId: 'b1', ChannelId: 'ch_1', IsPartial: true, StartTime: 0.4, Alternatives: [{ Transcript: 'Hi' }] }
+            ] } } },
+            { TranscriptEvent: { Transcript: { Results: [
+                { ResultId: 'b1', ChannelId: 'ch_1', IsPartial: false, StartTime: 0.4, Alternatives: [{ Transcript: 'Hi there.' }] },
+                { ResultId: 'a1', ChannelId: 'ch_0', IsPartial: false, StartTime: 0.1, Alternatives: [{ Transcript: 'Hello, support.' }] }
+            ] } } }
+        ];
+
+        const replay = async (events: unknown[]) => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            const onTranscript = jest.fn();
+            const onResult = jest.fn();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, onTranscript, onResult });
+            await client.start();
+
+            events.forEach(event => results.emit(event));
+            await flushPromises();
+            return { results, onTranscript, onResult };
+        };
+
+        test('should process every result in an event', async () => {
+            const { onTranscript, onResult } = await replay(SINGLE_CHANNEL_EVENTS);
+
+            expect(onResult).toHaveBeenCalledTimes(5);
+            const transcripts = onTranscript.mock.calls.map(([data]) => [data.transcript, data.interimTranscript]);
+            expect(transcripts).toEqual([
+                ['', 'The'],
+                ['', 'The quick'],
+                ['The quick fox. ', 'Jumps'],
+                ['The quick fox. Jumps over. ', '']
+            ]);
+
+            client.stop();
+        });
+
+        test('should keep results of different channels apart', async () => {
+            const { onTranscript, onResult } = await replay(DUAL_CHANNEL_EVENTS);
+
+            expect(onResult.mock.calls.map(([segment]) => [segment.channelId, segment.isPartial])).toEqual([
+                ['ch_0', true],
+                ['ch_1', true],
+                ['ch_1', false],
+                ['ch_0', false]
+            ]);
+            expect(onTranscript).toHaveBeenNthCalledWith(1, expect.objectContaining({ interimTranscript: 'Hello Hi' }));
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({
+                transcript: 'Hello, support. Hi there. ',
+                interimTranscript: ''
+            }));
+
+            client.stop();
+        });
+
+        test('should request speaker labels and report speaker turns', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            const onTranscript = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                showSpeakerLabel: true,
+                onTranscript
+            });
+            await client.start();
+
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command.ShowSpeakerLabel).toBe(true);
+
+            results.emit({ TranscriptEvent: { Transcript: { Results: [{
+                ResultId: 'r1',
+                IsPartial: false,
+                StartTime: 0,
+                EndTime: 1.2,
+                Alternatives: [{
+                    Transcript: 'Hi. Hello.',
+                    Items: [
+                        { Content: 'Hi', Type: 'pronunciation', StartTime: 0, EndTime: 0.3, Speaker: '0' },
+                        { Content: '.', Type: 'punctuation', StartTime: 0.3, EndTime: 0.3 },
+                        { Content: 'Hello', Type: 'pronunciation', StartTime: 0.6, EndTime: 1.2, Speaker: '1' },
+                        { Content: '.', Type: 'punctuation', StartTime: 1.2, EndTime: 1.2 }
+                    ]
+                }]
+            }] } } });
+            await flushPromises();
+
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({
+                transcript: 'Hi. Hello. ',
+                turns: [
+                    { speaker: '0', channelId: null, text: 'Hi.', startTime: 0, endTime: 0.3 },
+                    { speaker: '1', channelId: null, text: 'Hello.', startTime: 0.6, endTime: 1.2 }
+                ]
+            }));
+
+            client.stop();
+        });
+
+        test('should pass the custom vocabulary, filter and language model to Transcribe', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                vocabularyName: 'product-names',
+                vocabularyFilterName: 'competitor-names',
+                vocabularyFilterMethod: 'tag',
+                languageModelName: 'pharmacy-model'
+            });
+            await client.start();
+
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command).toMatchObject({
+                VocabularyName: 'product-names',
+                VocabularyFilterName: 'competitor-names',
+                VocabularyFilterMethod: 'tag',
+                LanguageModelName: 'pharmacy-model'
+            });
+
+            client.stop();
+        });
+
+        test('should identify languages and report each newly detected one', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            const onLanguageDetected = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                identifyMultipleLanguages: true,
+                languageOptions: ['en-US', 'es-US'],
+                preferredLanguage: 'en-US',
+                vocabularyName: 'products-en,products-es',
+                onLanguageDetected
+            });
+            await client.start();
+
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command).toMatchObject({
+                IdentifyMultipleLanguages: true,
+                LanguageOptions: 'en-US,es-US',
+                PreferredLanguage: 'en-US',
+                VocabularyNames: 'products-en,products-es'
+            });
+            expect(command.LanguageCode).toBeUndefined();
+            expect(command.VocabularyName).toBeUndefined();
+
+            const result = (resultId: string, isPartial: boolean, languageCode: string) => ({
+                ResultId: resultId,
+                IsPartial: isPartial,
+                LanguageCode: languageCode,
+                LanguageIdentification: [{ LanguageCode: languageCode, Score: 0.9 }],
+                Alternatives: [{ Transcript: resultId }]
+            });
+            results.emit({ TranscriptEvent: { Transcript: { Results: [result('r1', false, 'en-US')] } } });
+            results.emit({ TranscriptEvent: { Transcript: { Results: [result('r2', false, 'en-US')] } } });
+            results.emit({ TranscriptEvent: { Transcript: { Results: [result('r3', true, 'es-US')] } } });
+            results.emit({ TranscriptEvent: { Transcript: { Results: [result('r3', false, 'es-US')] } } });
+            await flushPromises();
+
+            expect(onLanguageDetected.mock.calls).toEqual([
+                [{ languageCode: 'en-US', confidence: 0.9, channelId: null }],
+                [{ languageCode: 'es-US', confidence: 0.9, channelId: null }]
+            ]);
+
+            client.stop();
+        });
+
+        test('should request PII redaction for the given entity types', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                contentRedactionType: 'PII',
+                piiEntityTypes: ['NAME', 'SSN']
+            });
+            await client.start();
+
+            const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command).toMatchObject({ ContentRedactionType: 'PII', PiiEntityTypes: 'NAME,SSN' });
+            expect(command.ContentIdentificationType).toBeUndefined();
+
+            client.stop();
+        });
+
+        test('should stream to Transcribe Medical and report PHI entities', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            const onResult = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                vocabularyName: 'drug-names',
+                medical: { specialty: 'PRIMARYCARE', type: 'DICTATION', contentIdentification: true },
+                onResult
+            });
+            await client.start();
+
+            expect(StartStreamTranscriptionCommand).not.toHaveBeenCalled();
+            const command = (StartMedicalStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+            expect(command).toMatchObject({
+                LanguageCode: 'en-US',
+                VocabularyName: 'drug-names',
+                Specialty: 'PRIMARYCARE',
+                Type: 'DICTATION',
+                ContentIdentificationType: 'PHI'
+            });
+            expect(command.EnablePartialResultsStabilization).toBeUndefined();
+
+            results.emit({ TranscriptEvent: { Transcript: { Results: [{
+                ResultId: 'r1',
+                IsPartial: false,
+                StartTime: 0,
+                EndTime: 2,
+                Alternatives: [{
+                    Transcript: 'Patient John Smith',
+                    Entities: [{ Category: 'PHI', Content: 'John Smith', StartTime: 0.8, EndTime: 2, Confidence: 0.95 }]
+                }]
+            }] } } });
+            await flushPromises();
+
+            expect(onResult.mock.calls[0][0].entities).toEqual([
+                { category: 'PHI', type: null, content: 'John Smith', startTime: 0.8, endTime: 2, confidence: 0.95 }
+            ]);
+
+            client.stop();
+        });
+
+        test('should clear finalized text on resetTranscript', async () => {
+            const { results, onTranscript } = await replay(SINGLE_CHANNEL_EVENTS.slice(0, 4));
+
+            onTranscript.mock.lastCall[0].resetTranscript();
+            results.emit(SINGLE_CHANNEL_EVENTS[4]);
+            await flushPromises();
+
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({
+                transcript: 'Jumps over. ',
+                interimTranscript: ''
+            }));
+            client.stop();
+        });
+    });
+
+    describe('word-level results', () => {
+        const wordResult = (isPartial: boolean, items: Array<[string, number, number, boolean]>) => ({
+            TranscriptEvent: {
+                Transcript: {
+                    Results: [{
+                        ResultId: 'result-1',
+                        IsPartial: isPartial,
+                        StartTime: items[0][1],
+                        EndTime: items[items.length - 1][2],
+                        Alternatives: [{
+                            Transcript: items.map(([content]) => content).join(' '),
+                            Items: items.map(([Content, StartTime, EndTime, Stable]) => ({
+                                Content,
+                                StartTime,
+                                EndTime,
+                                Stable,
+                                Type: 'pronunciation',
+                                Confidence: isPartial ? undefined : 0.9
+                            }))
+                        }]
+                    }]
+                }
+            }
+        });
+
+        test('should emit segments with words and keep stable flags across partials', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+
+            const onResult = jest.fn();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, onResult });
+            await client.start();
+
+            results.emit(wordResult(true, [['hello', 0.1, 0.4, true], ['word', 0.5, 0.7, false]]));
+            results.emit(wordResult(true, [['hello', 0.1, 0.4, false], ['world', 0.5, 0.8, false]]));
+            results.emit(wordResult(false, [['hello', 0.1, 0.4, false], ['world', 0.5, 0.8, false]]));
+            await flushPromises();
+
+            expect(onResult).toHaveBeenCalledTimes(3);
+            const partial = onResult.mock.calls[1][0];
+            expect(partial).toMatchObject({ resultId: 'result-1', isPartial: true, transcript: 'hello world' });
+            expect(partial.words.map((word: { stable: boolean }) => word.stable)).toEqual([true, false]);
+
+            const final = onResult.mock.calls[2][0];
+            expect(final).toMatchObject({ isPartial: false, startTime: 0.1, endTime: 0.8, confidence: 0.9 });
+            expect(final.words).toEqual([
+                { content: 'hello', type: 'pronunciation', startTime: 0.1, endTime: 0.4, confidence: 0.9, stable: true, speaker: null, vocabularyFilterMatch: false },
+                { content: 'world', type: 'pronunciation', startTime: 0.5, endTime: 0.8, confidence: 0.9, stable: true, speaker: null, vocabularyFilterMatch: false }
+            ]);
+
+            client.stop();
+        });
+
+        test('should report times on the session timeline after a reconnect', async () => {
+            const first = createResultStream();
+            const second = createResultStream();
+            mockTranscribeSend(async () => first.response);
+            mockTranscribeSend(async () => second.response);
+
+            const onResult = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                preRollDuration: 0,
+                reconnect: { initialDelay: 100 },
+                onResult
+            });
+            await client.start();
+
+            // 4096 samples at 16 kHz reach the first stream
+            feedAudio(0.5);
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+            await jest.advanceTimersByTimeAsync(100);
+            await flushPromises();
+
+            second.emit(wordResult(false, [['again', 0.1, 0.3, false]]));
+            await flushPromises();
+
+            const segment = onResult.mock.calls[0][0];
+            expect(segment.startTime).toBeCloseTo(0.356);
+            expect(segment.words[0].endTime).toBeCloseTo(0.556);
+
+            client.stop();
+        });
+    });
+
+    describe('reconnection', () => {
+        test('should reconnect with fresh credentials and replay buffered audio', async () => {
+            const first = createResultStream();
+            const second = createResultStream();
+            mockTranscribeSend(async () => first.response);
+            mockTranscribeSend(async () => second.response);
+
+            const onTranscript = jest.fn();
+            const onReconnecting = jest.fn();
+            const onReconnected = jest.fn();
+            const onError = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                reconnect: { initialDelay: 100 },
+                onTranscript,
+                onReconnecting,
+                onReconnected,
+                onError
+            });
+            await client.start();
+
+            first.emit(finalResult('Hello'));
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+
+            expect(onReconnecting).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, maxAttempts: 5 }));
+            expect(client.getState().isReconnecting).toBe(true);
+
+            // Speech captured while the stream is down
+            feedAudio(0.5);
+
+            await jest.advanceTimersByTimeAsync(100);
+            await flushPromises();
+
+            expect(onReconnected).toHaveBeenCalledWith(1);
+            expect(client.getState()).toEqual(expect.objectContaining({ isListening: true, isReconnecting: false }));
+            expect(mockCredentialsProvider).toHaveBeenCalledTimes(2);
+
+            second.emit(finalResult('world'));
+            await flushPromises();
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({ transcript: 'Hello world ' }));
+
+            client.stop();
+            const replayed = await collectSentChunks(1);
+            expect(replayed).toHaveLength(1);
+            expect(replayed[0][0]).toBe(Math.floor(0.5 * 32767));
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        test('should give up and stop after the maximum number of attempts', async () => {
+            const first = createResultStream();
+            mockTranscribeSend(async () => first.response);
+            mockTranscribeSend(async () => { throw new Error('Service unavailable'); });
+            mockTranscribeSend(async () => { throw new Error('Service unavailable'); });
+
+            const onError = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                reconnect: { maxAttempts: 2, initialDelay: 100 },
+                onError
+            });
+            await client.start();
+
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+            await jest.advanceTimersByTimeAsync(100);
+            await jest.advanceTimersByTimeAsync(200);
+            await flushPromises();
+
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+                code: 'STREAM_ERROR',
+                message: 'Service unavailable'
+            }));
+            expect(client.getState().isListening).toBe(false);
+        });
+
+        test('should not reconnect when disabled', async () => {
+            const first = createResultStream();
+            mockTranscribeSend(async () => first.response);
+
+            const onError = jest.fn();
+            const onReconnecting = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                reconnect: { maxAttempts: 0 },
+                onError,
+                onReconnecting
+            });
+            await client.start();
+
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+
+            expect(onReconnecting).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Stream dropped' }));
+            expect(client.getState().isListening).toBe(false);
+        });
+
+        test('should not reconnect after an unrecoverable service error', async () => {
+            const first = createResultStream();
+            mockTranscribeSend(async () => first.response);
+
+            const onError = jest.fn();
+            const onReconnecting = jest.fn();
+            client = new AWSTranscribeClient({ credentialsProvider: mockCredentialsProvider, onError, onReconnecting });
+            await client.start();
+
+            const badRequest = Object.assign(new Error('Unsupported language'), { name: 'BadRequestException' });
+            first.fail(badRequest);
+            await flushPromises();
+
+            expect(onReconnecting).not.toHaveBeenCalled();
+            const error: TranscribeError = onError.mock.calls[0][0];
+            expect(error).toMatchObject({
+                code: 'BAD_REQUEST',
+                recoverable: false,
+                awsErrorName: 'BadRequestException',
+                cause: badRequest
+            });
+            expect(client.getState().isListening).toBe(false);
+        });
+
+        test('should cancel a pending reconnect when stopped', async () => {
+            const first = createResultStream();
+            mockTranscribeSend(async () => first.response);
+
+            const onReconnected = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                reconnect: { initialDelay: 100 },
+                onReconnected
+            });
+            await client.start();
+
+            first.fail(new Error('Stream dropped'));
+            await flushPromises();
+            client.stop();
+            await jest.advanceTimersByTimeAsync(100);
+            await flushPromises();
+
+            expect(onReconnected).not.toHaveBeenCalled();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('rollover', () => {
+        test('should roll over before the credentials expire and drop duplicate results', async () => {
+            const first = createResultStream();
+            const second = createResultStream();
+            mockTranscribeSend(async () => first.response);
+            mockTranscribeSend(async () => second.response);
+            mockCredentialsProvider.mockImplementationOnce(async () => ({
+                accessKeyId: 'short-lived-key',
+                secretAccessKey: 'short-lived-secret',
+                sessionToken: 'short-lived-token',
+                expiration: new Date(Date.now() + 10 * 60 * 1000)
+            }));
+
+            const onTranscript = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                preRollDuration: 0,
+                // Two 4096-sample buffers at 16 kHz
+                maxSilenceDuration: 60 * 60 * 1000,
+                rollover: { lead: 60000, overlapDuration: 512 },
+                onTranscript
+            });
+            await client.start();
+
+            feedAudio(0.5);
+            first.emit(finalResult('hello', 0));
+
+            // One minute before the credentials expire
+            await jest.advanceTimersByTimeAsync(9 * 60 * 1000);
+            await flushPromises();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(2);
+            expect(mockCredentialsProvider).toHaveBeenCalledTimes(2);
+
+            // The overlap goes to both streams, then the old audio stream is ended
+            feedAudio(0.5);
+            feedAudio(0.5);
+            expect(await collectSentChunks(0)).toHaveLength(3);
+
+            // The old stream owns results starting before the overlap midpoint (0.512s), the new one the rest
+            first.emit(finalResult('overlap', 0.3));
+            second.emit(finalResult('overlap', 0.1));
+            second.emit(finalResult('continues', 0.4));
+            first.emit(finalResult('continues', 0.6));
+            await flushPromises();
+
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({
+                transcript: 'hello overlap continues '
+            }));
+            expect(client.getState().isListening).toBe(true);
+
+            client.stop();
+            expect(await collectSentChunks(1)).toHaveLength(2);
+        });
+
+        test('should roll over before the maximum stream duration', async () => {
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                rollover: { maxStreamDuration: 30 * 60 * 1000, lead: 60000 }
+            });
+            await client.start();
+
+            await jest.advanceTimersByTimeAsync(28 * 60 * 1000);
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+
+            await jest.advanceTimersByTimeAsync(60 * 1000);
+            await flushPromises();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(2);
+
+            client.stop();
+        });
+
+        test.each([0, -1, NaN, Infinity])('should use the four hour limit for a maxStreamDuration of %p', async (maxStreamDuration) => {
+            mockCredentialsProvider.mockImplementationOnce(async () => ({
+                accessKeyId: 'no-expiry-key',
+                secretAccessKey: 'no-expiry-secret',
+                sessionToken: 'no-expiry-token'
+            }));
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                rollover: { maxStreamDuration, lead: 60000 }
+            });
+            await client.start();
+
+            await jest.advanceTimersByTimeAsync(3 * 60 * 60 * 1000);
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+
+            await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+            await flushPromises();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(2);
+
+            client.stop();
+        });
+
+        test.each([-1, NaN, Infinity])('should use the default lead and overlap for a value of %p', async (duration) => {
+            mockCredentialsProvider.mockImplementationOnce(async () => ({
+                accessKeyId: 'no-expiry-key',
+                secretAccessKey: 'no-expiry-secret',
+                sessionToken: 'no-expiry-token'
+            }));
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                rollover: { lead: duration, overlapDuration: duration }
+            });
+            await client.start();
+
+            await jest.advanceTimersByTimeAsync(4 * 60 * 60 * 1000 - 61000);
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(1);
+
+            await jest.advanceTimersByTimeAsync(1000);
+            await flushPromises();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(2);
+
+            client.stop();
+        });
+
+        test('should cancel the timers of a rollover on stop', async () => {
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                rollover: { maxStreamDuration: 120000, lead: 60000 }
+            });
+            await client.start();
+
+            // The old stream overlaps with the new one, then drains
+            await jest.advanceTimersByTimeAsync(60000);
+            await flushPromises();
+            expect(TranscribeStreamingClient).toHaveBeenCalledTimes(2);
+
+            client.stop();
+            expect(jest.getTimerCount()).toBe(0);
+        });
+    });
+
+    describe('tab coordination', () => {
+        const createTabCoordinator = (acquired: boolean) => ({
+            acquire: jest.fn().mockResolvedValue(acquired),
+            release: jest.fn(),
+            follow: jest.fn(),
+            unfollow: jest.fn(),
+            publish: jest.fn()
+        });
+
+        test('should not start while another tab is active', async () => {
+            const onError = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                tabCoordinator: createTabCoordinator(false) as unknown as TabCoordinator,
+                onError
+            });
+
+            await expect(client.start()).rejects.toBeInstanceOf(TabCoordinationError);
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ANOTHER_TAB_ACTIVE' }));
+            expect(client.getState().isListening).toBe(false);
+            expect(TranscribeStreamingClient).not.toHaveBeenCalled();
+        });
+
+        test('should publish the transcript and release the tab on stop', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+            const tabCoordinator = createTabCoordinator(true);
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                tabCoordinator: tabCoordinator as unknown as TabCoordinator
+            });
+            await client.start();
+
+            results.emit(finalResult('hello', 0));
+            await flushPromises();
+            expect(tabCoordinator.publish).toHaveBeenLastCalledWith(expect.objectContaining({ transcript: 'hello ' }));
+
+            client.stop();
+            expect(tabCoordinator.release).toHaveBeenCalled();
+        });
+
+        test('should follow the active tab and carry on its transcript after a handover', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+            const tabCoordinator = createTabCoordinator(false);
+            const onTranscript = jest.fn();
+            const onStateChange = jest.fn();
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                tabCoordinator: tabCoordinator as unknown as TabCoordinator,
+                followActiveTab: true,
+                onTranscript,
+                onStateChange
+            });
+
+            expect(await client.start()).toBe(false);
+            expect(client.getState().isFollowing).toBe(true);
+            expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ isFollowing: true }));
+
+            const follower: TabFollower = tabCoordinator.follow.mock.calls[0][0];
+            follower.onTranscript({ transcript: 'hello', interimTranscript: '', turns: [] });
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({ transcript: 'hello' }));
+
+            // The active tab closed and this one was elected
+            tabCoordinator.acquire.mockResolvedValue(true);
+            follower.onHandover();
+            await flushPromises();
+            expect(client.getState()).toEqual(expect.objectContaining({ isListening: true, isFollowing: false }));
+
+            results.emit(finalResult('world', 0));
+            await flushPromises();
+            expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({ transcript: 'hello world ' }));
+
+            client.stop();
+        });
+
+        test('should stop following when the active tab stops', async () => {
+            const onStateChange = jest.fn();
+            const tabCoordinator = createTabCoordinator(false);
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                tabCoordinator: tabCoordinator as unknown as TabCoordinator,
+                followActiveTab: true,
+                onStateChange
+            });
+            await client.start();
+
+            const follower: TabFollower = tabCoordinator.follow.mock.calls[0][0];
+            follower.onActiveTabStopped();
+
+            expect(client.getState().isFollowing).toBe(false);
+            expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ isFollowing: false }));
+        });
+
+        test('should hand over and stop when the page goes into the back/forward cache', async () => {
+            const results = createResultStream();
+            mockTranscribeSend(async () => results.response);
+            const tabCoordinator = createTabCoordinator(true);
+            client = new AWSTranscribeClient({
+                credentialsProvider: mockCredentialsProvider,
+                tabCoordinator: tabCoordinator as unknown as TabCoordinator
+            });
+            await client.start();
+
+            window.dispatchEvent(Object.assign(new Event('pagehide'), { persisted: false }));
+            expect(client.getState().isListening).toBe(true);
+
+            window.dispatchEvent(Object.assign(new Event('pagehide'), { persisted: true }));
+            expect(tabCoordinator.release).toHaveBeenCalledWith(true);
+            expect(client.getState().isListening).toBe(false);
+        });
     });
 });
@@ -0,0 +1,186 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { MessageChannel, receiveMessageOnPort } from 'worker_threads';
+import {
+    IndexedDBCredentialStore,
+    LocalStorageCredentialStore,
+    MemoryCredentialStore,
+    SessionStorageCredentialStore
+} from '../credential-store';
+import { BrowserNotSupportedError } from '../errors';
+import { TranscribeCredentials } from '../transcribe-session';
+
+const credentials: TranscribeCredentials = {
+    accessKeyId: 'test-access-key',
+    secretAccessKey: 'test-secret-key',
+    sessionToken: 'test-session-token',
+    expiration: new Date('2030-01-01T00:00:00Z'),
+    reservedMinutes: 10
+};
+
+describe('MemoryCredentialStore', () => {
+    test('should store credentials per key', async () => {
+        const store = new MemoryCredentialStore();
+
+        await store.set('user-1', credentials);
+
+        expect(await store.get('user-1')).toEqual(credentials);
+        expect(await store.get('user-2')).toBeNull();
+
+        await store.remove('user-1');
+        expect(await store.get('user-1')).toBeNull();
+    });
+
+    test('should not share credentials between instances', async () => {
+        await new MemoryCredentialStore().set('user-1', credentials);
+
+        expect(await new MemoryCredentialStore().get('user-1')).toBeNull();
+    });
+});
+
+describe.each([
+    ['SessionStorageCredentialStore', () => new SessionStorageCredentialStore(), () => sessionStorage],
+    ['LocalStorageCredentialStore', () => new LocalStorageCredentialStore(), () => localStorage]
+])('%s', (name, createStore, getStorage) => {
+    beforeEach(() => {
+        getStorage().clear();
+    });
+
+    test('should store credentials with their expiration as a date', async () => {
+        const store = createStore();
+
+        await store.set('user-1', credentials);
+
+        expect(await store.get('user-1')).toEqual(credentials);
+        expect(await store.get('user-2')).toBeNull();
+        expect(JSON.parse(getStorage().getItem('user-1') as string).secretAccessKey).toBe('test-secret-key');
+    });
+
+    test('should remove credentials', async () => {
+        const store = createStore();
+        await store.set('user-1', credentials);
+
+        await store.remove('user-1');
+
+        expect(getStorage().getItem('user-1')).toBeNull();
+    });
+
+    test('should remove corrupt credentials', async () => {
+        getStorage().setItem('user-1', '{not json');
+
+        await expect(createStore().get('user-1')).rejects.toThrow(SyntaxError);
+        expect(getStorage().getItem('user-1')).toBeNull();
+    });
+});
+
+describe('IndexedDBCredentialStore', () => {
+    test('should reject without IndexedDB', async () => {
+        const store = new IndexedDBCredentialStore();
+
+        await expect(store.get('user-1')).rejects.toBeInstanceOf(BrowserNotSupportedError);
+        await expect(store.set('user-1', credentials)).rejects.toBeInstanceOf(BrowserNotSupportedError);
+    });
+
+    describe('with IndexedDB and WebCrypto', () => {
+        const scope = global as unknown as Record<string, unknown>;
+        const globals = ['indexedDB', 'crypto', 'structuredClone', 'TextEncoder', 'TextDecoder'];
+        let saved: Record<string, PropertyDescriptor | undefined>;
+
+        // Node's structured clone, which unlike jsdom can clone CryptoKeys into IndexedDB
+        const structuredClone = (value: unknown) => {
+            const { port1, port2 } = new MessageChannel();
+            port1.postMessage(value);
+            const cloned = receiveMessageOnPort(port2)?.message;
+            port1.close();
+            return cloned;
+        };
+
+        beforeEach(() => {
+            saved = Object.fromEntries(globals.map(name => [name, Object.getOwnPropertyDescriptor(scope, name)]));
+            const values: Record<string, unknown> = {
+                indexedDB: new IDBFactory(),
+                crypto: webcrypto,
+                structuredClone,
+                TextEncoder,
+                TextDecoder
+            };
+            globals.forEach(name => {
+                Object.defineProperty(scope, name, { value: values[name], configurable: true, writable: true });
+            });
+        });
+
+        afterEach(() => {
+            globals.forEach(name => {
+                const descriptor = saved[name];
+                if (descriptor) {
+                    Object.defineProperty(scope, name, descriptor);
+                } else {
+                    delete scope[name];
+                }
+            });
+        });
+
+        const readRecord = (key: string): Promise<{ iv: Uint8Array; data: ArrayBuffer }> => new Promise((resolve, reject) => {
+            const request = indexedDB.open('aws-transcribe-client');
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const get = request.result.transaction('credentials').objectStore('credentials').get(key);
+                get.onsuccess = () => {
+                    request.result.close();
+                    resolve(get.result);
+                };
+                get.onerror = () => reject(get.error);
+            };
+        });
+
+        test('should store credentials encrypted and decrypt them', async () => {
+            const store = new IndexedDBCredentialStore();
+
+            await store.set('user-1', credentials);
+
+            expect(await store.get('user-1')).toEqual(credentials);
+            expect(await store.get('user-2')).toBeNull();
+            const record = await readRecord('user-1');
+            expect(record.iv).toHaveLength(12);
+            expect(new TextDecoder().decode(record.data)).not.toContain('test-secret-key');
+        });
+
+        test('should reuse the persisted key in a new store, e.g. after a reload', async () => {
+            await new IndexedDBCredentialStore().set('user-1', credentials);
+
+            expect(await new IndexedDBCredentialStore().get('user-1')).toEqual(credentials);
+        });
+
+        test('should remove credentials', async () => {
+            const store = new IndexedDBCredentialStore();
+            await store.set('user-1', credentials);
+
+            await store.remove('user-1');
+
+            expect(await store.get('user-1')).toBeNull();
+        });
+
+        test('should remove credentials that cannot be decrypted', async () => {
+            const store = new IndexedDBCredentialStore();
+            await store.set('user-1', credentials);
+            const record = await readRecord('user-1');
+            new Uint8Array(record.data)[0] ^= 0xff;
+            await new Promise<void>((resolve, reject) => {
+                const request = indexedDB.open('aws-transcribe-client');
+                request.onsuccess = () => {
+                    const transaction = request.result.transaction('credentials', 'readwrite');
+                    transaction.objectStore('credentials').put(record, 'user-1');
+                    transaction.oncomplete = () => {
+                        request.result.close();
+                        resolve();
+                    };
+                    transaction.onerror = () => reject(transaction.error);
+                };
+            });
+
+            await expect(store.get('user-1')).rejects.toThrow();
+            expect(await store.get('user-1')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import {
+    CredentialsError,
+    MicrophoneError,
+    TranscribeError,
+    TranscribeServiceError,
+    TranscribeStreamError,
+    createMicrophoneError,
+    toTranscribeError
+} from '../errors';
+
+const awsException = (name: string, message: string) => Object.assign(new Error(message), { name });
+
+describe('toTranscribeError', () => {
+    test.each([
+        ['LimitExceededException', 'LIMIT_EXCEEDED', true],
+        ['ConflictException', 'CONFLICT', true],
+        ['InternalFailureException', 'SERVICE_UNAVAILABLE', true],
+        ['ServiceUnavailableException', 'SERVICE_UNAVAILABLE', true],
+        ['BadRequestException', 'BAD_REQUEST', false]
+    ])('should map %s to %s', (name, code, recoverable) => {
+        const cause = awsException(name, 'Something went wrong');
+        const error = toTranscribeError(cause);
+
+        expect(error).toBeInstanceOf(TranscribeServiceError);
+        expect(error).toBeInstanceOf(TranscribeError);
+        expect(error).toMatchObject({ code, recoverable, awsErrorName: name, cause, message: 'Something went wrong' });
+    });
+
+    test('should treat the no-audio timeout as recoverable', () => {
+        const error = toTranscribeError(awsException(
+            'BadRequestException',
+            'Your request timed out because no new audio was received for 15 seconds.'
+        ));
+
+        expect(error).toMatchObject({ code: 'BAD_REQUEST', recoverable: true });
+    });
+
+    test('should map rejected credentials', () => {
+        expect(toTranscribeError(awsException('ExpiredTokenException', 'Expired'))).toBeInstanceOf(CredentialsError);
+        expect(toTranscribeError(awsException('ExpiredTokenException', 'Expired')).recoverable).toBe(true);
+        expect(toTranscribeError(awsException('AccessDeniedException', 'Denied'))).toMatchObject({
+            code: 'CREDENTIALS_REJECTED',
+            recoverable: false
+        });
+    });
+
+    test('should wrap anything else as a recoverable stream error', () => {
+        const error = toTranscribeError('socket closed');
+
+        expect(error).toBeInstanceOf(TranscribeStreamError);
+        expect(error).toMatchObject({ code: 'STREAM_ERROR', recoverable: true, message: 'socket closed' });
+    });
+
+    test('should return TranscribeErrors unchanged', () => {
+        const error = new CredentialsError('CREDENTIALS_FAILED', 'No credentials available');
+
+        expect(toTranscribeError(error)).toBe(error);
+    });
+});
+
+describe('createMicrophoneError', () => {
+    test.each([
+        ['NotAllowedError', 'MICROPHONE_PERMISSION_DENIED'],
+        ['SecurityError', 'MICROPHONE_PERMISSION_DENIED'],
+        ['NotFoundError', 'MICROPHONE_NOT_FOUND'],
+        ['NotReadableError', 'MICROPHONE_UNAVAILABLE']
+    ])('should map %s to %s', (name, code) => {
+        const cause = awsException(name, 'getUserMedia failed');
+        const error = createMicrophoneError(cause);
+
+        expect(error).toBeInstanceOf(MicrophoneError);
+        expect(error).toMatchObject({ code, recoverable: false, cause });
+    });
+});
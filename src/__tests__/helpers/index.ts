@@ -0,0 +1,105 @@
+import type { TranscribeCredentials } from '../../transcribe-session';
+
+// Shared by the tests that run sessions against a mocked Transcribe. Install the SDK mock with
+//   jest.mock('@aws-sdk/client-transcribe-streaming', () => jest.requireActual('./helpers').createSdkMock());
+// which is why this module doesn't import the SDK itself
+
+export const createSdkMock = () => ({
+    TranscribeStreamingClient: jest.fn(),
+    StartStreamTranscriptionCommand: jest.fn().mockImplementation(input => ({ input })),
+    LanguageCode: { EN_US: 'en-US' },
+    MediaEncoding: { PCM: 'pcm' },
+    PartialResultsStability: { HIGH: 'high' }
+});
+
+export const credentialsProvider = jest.fn().mockImplementation(async (): Promise<TranscribeCredentials> => ({
+    accessKeyId: 'test-access-key',
+    secretAccessKey: 'test-secret-key',
+    sessionToken: 'test-session-token',
+    expiration: new Date(Date.now() + 3600000)
+}));
+
+type AudioEvent = { AudioEvent: { AudioChunk: Uint8Array } };
+
+// Emulates Transcribe: reads the audio until the stream ends, then answers with the given events
+export const mockTranscribe = (respond: (chunks: Int16Array[]) => unknown[]) => {
+    const { TranscribeStreamingClient } = jest.requireMock('@aws-sdk/client-transcribe-streaming');
+    (TranscribeStreamingClient as jest.Mock).mockImplementation(() => ({
+        send: jest.fn().mockImplementation(async ({ input }: { input: { AudioStream: AsyncIterable<AudioEvent> } }) => ({
+            TranscriptResultStream: (async function* () {
+                const chunks: Int16Array[] = [];
+                for await (const event of input.AudioStream) {
+                    chunks.push(new Int16Array(event.AudioEvent.AudioChunk.slice().buffer));
+                }
+                yield* respond(chunks);
+            })()
+        })),
+        destroy: jest.fn()
+    }));
+};
+
+// All audio received, in one array
+export const joinChunks = (chunks: Int16Array[]): Int16Array => {
+    const samples = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    chunks.reduce((offset, chunk) => { samples.set(chunk, offset); return offset + chunk.length; }, 0);
+    return samples;
+};
+
+export const finalResult = (transcript: string, channelId?: string, startTime = 0) => ({
+    TranscriptEvent: {
+        Transcript: {
+            Results: [{ IsPartial: false, StartTime: startTime, ChannelId: channelId, Alternatives: [{ Transcript: transcript }] }]
+        }
+    }
+});
+
+export const partialResult = (transcript: string) => ({
+    TranscriptEvent: {
+        Transcript: {
+            Results: [{ IsPartial: true, StartTime: 0, Alternatives: [{ Transcript: transcript }] }]
+        }
+    }
+});
+
+// Builds a WAV file from a fmt chunk body and the raw sample data
+export const createWav = (fmt: number[], data: Uint8Array, extraChunk = false): Uint8Array => {
+    const fmtBytes = new Uint8Array(fmt.length * 2);
+    const fmtView = new DataView(fmtBytes.buffer);
+    fmt.forEach((value, index) => fmtView.setUint16(index * 2, value, true));
+
+    const chunks: Array<[string, Uint8Array]> = [['fmt ', fmtBytes], ['data', data]];
+    if (extraChunk) {
+        // An odd-sized chunk in front of the data, which has to be skipped including its padding byte
+        chunks.splice(1, 0, ['LIST', new Uint8Array(3)]);
+    }
+
+    const length = chunks.reduce((total, [, body]) => total + 8 + body.length + (body.length % 2), 12);
+    const bytes = new Uint8Array(length);
+    const view = new DataView(bytes.buffer);
+    const writeTag = (offset: number, tag: string) => {
+        tag.split('').forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, length - 8, true);
+    writeTag(8, 'WAVE');
+    let offset = 12;
+    chunks.forEach(([tag, body]) => {
+        writeTag(offset, tag);
+        view.setUint32(offset + 4, body.length, true);
+        bytes.set(body, offset + 8);
+        offset += 8 + body.length + (body.length % 2);
+    });
+    return bytes;
+};
+
+// format, channels, sample rate (two 16-bit words), byte rate (two words), block align, bits per sample
+export const fmtChunk = (format: number, channels: number, sampleRate: number, bits: number) => {
+    const blockAlign = channels * bits / 8;
+    const byteRate = sampleRate * blockAlign;
+    return [format, channels, sampleRate & 0xffff, sampleRate >>> 16, byteRate & 0xffff, byteRate >>> 16, blockAlign, bits];
+};
+
+// A 16-bit PCM WAV file with interleaved channels
+export const createPcmWav = (sampleRate: number, channels: number, samples: Int16Array): Uint8Array =>
+    createWav(fmtChunk(1, channels, sampleRate, 16), new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength));
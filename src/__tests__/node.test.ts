@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StartStreamTranscriptionCommand } from '@aws-sdk/client-transcribe-streaming';
+import { transcribeFile, transcribeStream } from '../node';
+import { AudioFormatError } from '../errors';
+import { createPcmWav, credentialsProvider, finalResult, joinChunks, mockTranscribe } from './helpers';
+
+jest.mock('@aws-sdk/client-transcribe-streaming', () => jest.requireActual('./helpers').createSdkMock());
+
+// Collects all audio sent to Transcribe and finishes with one final result
+let received: Int16Array;
+const mockCollectingTranscribe = () => mockTranscribe(chunks => {
+    received = joinChunks(chunks);
+    return [finalResult('done')];
+});
+
+async function* bytesOf(chunks: Uint8Array[]) {
+    yield* chunks;
+}
+
+jest.useFakeTimers();
+
+describe('Node entry point', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockCollectingTranscribe();
+        directory = mkdtempSync(join(tmpdir(), 'aws-transcribe-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should transcribe a byte stream split at odd offsets', async () => {
+        const samples = Int16Array.from({ length: 4000 }, (_, i) => (i % 2 ? 3000 : -3000));
+        const bytes = new Uint8Array(samples.buffer);
+
+        const result = await transcribeStream(
+            bytesOf([bytes.subarray(0, 3), bytes.subarray(3, 5001), bytes.subarray(5001)]),
+            { credentialsProvider }
+        );
+
+        expect(result.transcript).toBe('done');
+        expect(Array.from(received)).toEqual(Array.from(samples));
+    });
+
+    test('should resample a stereo WAV file and mix it down to mono', async () => {
+        const path = join(directory, 'call.wav');
+        const frames = 8000;
+        const samples = Int16Array.from({ length: frames * 2 }, (_, i) => (i % 2 ? 0 : 8000));
+        writeFileSync(path, createPcmWav(8000, 2, samples));
+
+        const result = await transcribeFile(path, { credentialsProvider, speed: 0 });
+
+        const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+        expect(command.MediaSampleRateHertz).toBe(16000);
+        expect(command.EnableChannelIdentification).toBeUndefined();
+        expect(result.transcript).toBe('done');
+        // One second of audio at 16 kHz, at about half the level of the left channel
+        expect(Math.abs(received.length - 16000)).toBeLessThan(100);
+        expect(Math.abs(received[8000] - 4000)).toBeLessThan(50);
+    });
+
+    test('should keep the channels of a stereo WAV file apart with channel identification', async () => {
+        const path = join(directory, 'call.wav');
+        const samples = Int16Array.from({ length: 32000 }, (_, i) => (i % 2 ? 6000 : 3000));
+        writeFileSync(path, createPcmWav(16000, 2, samples));
+
+        await transcribeFile(path, { credentialsProvider, speed: 0, channelIdentification: true });
+
+        const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+        expect(command).toEqual(expect.objectContaining({ EnableChannelIdentification: true, NumberOfChannels: 2 }));
+        expect(Math.abs(received[0] - 3000)).toBeLessThanOrEqual(1);
+        expect(Math.abs(received[1] - 6000)).toBeLessThanOrEqual(1);
+    });
+
+    test('should reject channel identification for mono files', async () => {
+        const path = join(directory, 'memo.wav');
+        writeFileSync(path, createPcmWav(16000, 1, new Int16Array(1600)));
+
+        await expect(transcribeFile(path, { credentialsProvider, channelIdentification: true }))
+            .rejects.toBeInstanceOf(AudioFormatError);
+    });
+
+    test('should read files without a WAV header as raw PCM', async () => {
+        const path = join(directory, 'memo.pcm');
+        const samples = new Int16Array(3200).fill(3000);
+        writeFileSync(path, Buffer.from(samples.buffer));
+
+        await transcribeFile(path, { credentialsProvider, speed: 0 });
+
+        expect(Array.from(received)).toEqual(Array.from(samples));
+    });
+});
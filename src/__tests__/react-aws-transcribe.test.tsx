@@ -59,6 +59,26 @@ jest.mock('../aws-transcribe-client', () => {
             }, 10);
             return Promise.resolve(mockIsListening);
         }),
+        pause: jest.fn().mockImplementation(() => {
+            setTimeout(() => {
+                mockClient._onStateChangeCallback?.({
+                    isListening: true,
+                    isActivelySpeaking: false,
+                    isPaused: true
+                });
+            }, 10);
+            return true;
+        }),
+        resume: jest.fn().mockImplementation(() => {
+            setTimeout(() => {
+                mockClient._onStateChangeCallback?.({
+                    isListening: true,
+                    isActivelySpeaking: false,
+                    isPaused: false
+                });
+            }, 10);
+            return true;
+        }),
         getState: jest.fn().mockImplementation(() => ({
             isListening: mockIsListening,
             isActivelySpeaking: false,
@@ -163,6 +183,36 @@ describe('ReactAWSTranscribe', () => {
         }, { timeout: 2000, interval: 100 });
     });
 
+    test('exposes pause and resume through render props', async () => {
+        render(
+            <ReactAWSTranscribe
+                credentialsProvider={mockCredentialsProvider}
+            >
+                {({ isPaused, pause, resume }) => (
+                    <button
+                        onClick={() => isPaused ? resume() : pause()}
+                        data-testid="pause-button"
+                    >
+                        {isPaused ? 'Resume' : 'Pause'}
+                    </button>
+                )}
+            </ReactAWSTranscribe>
+        );
+
+        const pauseButton = screen.getByTestId('pause-button');
+        expect(pauseButton).toHaveTextContent('Pause');
+
+        fireEvent.click(pauseButton);
+        await waitFor(() => {
+            expect(pauseButton).toHaveTextContent('Resume');
+        }, { timeout: 2000, interval: 100 });
+
+        fireEvent.click(pauseButton);
+        await waitFor(() => {
+            expect(pauseButton).toHaveTextContent('Pause');
+        }, { timeout: 2000, interval: 100 });
+    });
+
     test('calls transcript handler when transcript is received', async () => {
         const handleTranscript = jest.fn();
 
@@ -0,0 +1,72 @@
+import { Resampler } from '../resampler';
+
+const createTone = (frequency: number, sampleRate: number, length: number) => {
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        samples[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate);
+    }
+    return samples;
+};
+
+const peak = (samples: Float32Array) => samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+// Feeds the input in capture-sized chunks, the way the client does
+const resampleInChunks = (resampler: Resampler, input: Float32Array, chunkSize = 4096) => {
+    const chunks: Float32Array[] = [];
+    for (let offset = 0; offset < input.length; offset += chunkSize) {
+        chunks.push(resampler.process(input.subarray(offset, offset + chunkSize)));
+    }
+
+    const output = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return output;
+};
+
+describe('Resampler', () => {
+    test('should pass samples through when the rates match', () => {
+        const resampler = new Resampler(16000, 16000);
+        const input = new Float32Array([0.1, 0.2, 0.3]);
+
+        expect(resampler.getFilter()).toBeNull();
+        expect(resampler.process(input)).toBe(input);
+    });
+
+    test.each([
+        [48000, 16000],
+        [44100, 16000],
+        [48000, 8000],
+        [22050, 16000]
+    ])('should convert one second at %i Hz to %i samples-per-second across chunk boundaries', (inputRate, outputRate) => {
+        const resampler = new Resampler(inputRate, outputRate);
+
+        expect(resampleInChunks(resampler, new Float32Array(inputRate)).length).toBe(outputRate);
+    });
+
+    test('should keep the level of in-band audio', () => {
+        const resampler = new Resampler(48000, 16000);
+        const output = resampleInChunks(resampler, createTone(1000, 48000, 48000));
+
+        // Skip the filter's start-up transient
+        expect(peak(output.subarray(1000))).toBeCloseTo(1, 1);
+    });
+
+    test('should filter out frequencies above the new Nyquist limit', () => {
+        const resampler = new Resampler(48000, 16000);
+        const output = resampleInChunks(resampler, createTone(12000, 48000, 48000));
+
+        // A 12 kHz tone would otherwise alias to 4 kHz at full level
+        expect(peak(output.subarray(1000))).toBeLessThan(0.01);
+    });
+
+    test('should start from silence again after reset', () => {
+        const resampler = new Resampler(48000, 16000);
+        resampler.process(new Float32Array(4096).fill(1));
+        resampler.reset();
+
+        expect(peak(resampler.process(new Float32Array(4096)))).toBe(0);
+    });
+});
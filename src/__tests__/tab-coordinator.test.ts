@@ -0,0 +1,193 @@
+import { TabCoordinator } from '../tab-coordinator';
+
+// Delivers messages to the other channels of the same name, asynchronously like the real one
+class FakeBroadcastChannel {
+    static channels: FakeBroadcastChannel[] = [];
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+
+    constructor(public name: string) {
+        FakeBroadcastChannel.channels.push(this);
+    }
+
+    postMessage(data: unknown) {
+        if (!FakeBroadcastChannel.channels.includes(this)) return;
+        FakeBroadcastChannel.channels
+            .filter(channel => channel !== this && channel.name === this.name)
+            .forEach(channel => setTimeout(() => channel.onmessage?.({ data }), 0));
+    }
+
+    close() {
+        FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this);
+    }
+}
+
+const globalScope = global as unknown as { BroadcastChannel?: unknown };
+
+const transcript = { transcript: 'hello world', interimTranscript: 'how', turns: [] };
+
+describe('TabCoordinator', () => {
+    let tabs: TabCoordinator[];
+
+    const openTab = (key?: string) => {
+        const tab = new TabCoordinator({ key });
+        tabs.push(tab);
+        return tab;
+    };
+
+    const acquire = async (tab: TabCoordinator) => {
+        const acquired = tab.acquire();
+        await jest.advanceTimersByTimeAsync(200);
+        return acquired;
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        tabs = [];
+        FakeBroadcastChannel.channels = [];
+        globalScope.BroadcastChannel = FakeBroadcastChannel;
+    });
+
+    afterEach(() => {
+        tabs.forEach(tab => tab.close());
+        delete globalScope.BroadcastChannel;
+        jest.useRealTimers();
+    });
+
+    test('should make a single tab active', async () => {
+        const tab = openTab();
+
+        expect(tab.isActive()).toBe(false);
+        expect(await acquire(tab)).toBe(true);
+        expect(tab.isActive()).toBe(true);
+    });
+
+    test('should always be active without BroadcastChannel', async () => {
+        delete globalScope.BroadcastChannel;
+        const tab = openTab();
+
+        expect(await tab.acquire()).toBe(true);
+    });
+
+    test('should not let a second tab become active', async () => {
+        const first = openTab();
+        const second = openTab();
+
+        expect(await acquire(first)).toBe(true);
+        expect(await acquire(second)).toBe(false);
+        expect(second.isActive()).toBe(false);
+
+        // Until the active tab releases it
+        first.release();
+        await jest.advanceTimersByTimeAsync(1);
+        expect(await acquire(second)).toBe(true);
+    });
+
+    test('should let the earliest of simultaneous claims win', async () => {
+        const first = openTab();
+        const second = openTab();
+
+        const firstAcquired = first.acquire();
+        await jest.advanceTimersByTimeAsync(50);
+        const secondAcquired = second.acquire();
+        await jest.advanceTimersByTimeAsync(200);
+
+        expect(await firstAcquired).toBe(true);
+        expect(await secondAcquired).toBe(false);
+    });
+
+    test('should coordinate tabs with different keys separately', async () => {
+        expect(await acquire(openTab('user-1'))).toBe(true);
+        expect(await acquire(openTab('user-2'))).toBe(true);
+    });
+
+    test('should mirror the transcript of the active tab to its followers', async () => {
+        const active = openTab();
+        const follower = openTab();
+        const onTranscript = jest.fn();
+        await acquire(active);
+        follower.follow({ onTranscript, onHandover: jest.fn(), onActiveTabStopped: jest.fn() });
+
+        active.publish(transcript);
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(onTranscript).toHaveBeenCalledWith(transcript);
+
+        // Only the active tab publishes
+        follower.publish({ ...transcript, transcript: 'ignored' });
+        await jest.advanceTimersByTimeAsync(1);
+        expect(onTranscript).toHaveBeenCalledTimes(1);
+    });
+
+    test('should hand over to a follower when the active tab closes', async () => {
+        const active = openTab();
+        const follower = openTab();
+        const onHandover = jest.fn();
+        await acquire(active);
+        await jest.advanceTimersByTimeAsync(1);
+        follower.follow({ onTranscript: jest.fn(), onHandover, onActiveTabStopped: jest.fn() });
+
+        window.dispatchEvent(new Event('pagehide'));
+        await jest.advanceTimersByTimeAsync(250);
+
+        expect(onHandover).toHaveBeenCalledTimes(1);
+        expect(follower.isActive()).toBe(true);
+    });
+
+    test('should hand over to only one of several followers', async () => {
+        const active = openTab();
+        const followers = [openTab(), openTab()];
+        const onHandover = jest.fn();
+        await acquire(active);
+        await jest.advanceTimersByTimeAsync(1);
+        followers.forEach(tab => tab.follow({ onTranscript: jest.fn(), onHandover, onActiveTabStopped: jest.fn() }));
+
+        active.release(true);
+        await jest.advanceTimersByTimeAsync(250);
+
+        expect(onHandover).toHaveBeenCalledTimes(1);
+        expect(followers.filter(tab => tab.isActive())).toHaveLength(1);
+    });
+
+    test('should not hand over when the active tab stops', async () => {
+        const active = openTab();
+        const follower = openTab();
+        const onHandover = jest.fn();
+        const onActiveTabStopped = jest.fn();
+        await acquire(active);
+        await jest.advanceTimersByTimeAsync(1);
+        follower.follow({ onTranscript: jest.fn(), onHandover, onActiveTabStopped });
+
+        active.release();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(onHandover).not.toHaveBeenCalled();
+        expect(onActiveTabStopped).toHaveBeenCalledTimes(1);
+        expect(follower.isActive()).toBe(false);
+
+        // No longer following, so a later session closing in another tab doesn't hand over to it
+        const other = openTab();
+        await acquire(other);
+        other.release(true);
+        await jest.advanceTimersByTimeAsync(250);
+        expect(onHandover).not.toHaveBeenCalled();
+        expect(follower.isActive()).toBe(false);
+    });
+
+    test('should take over when the active tab stops responding', async () => {
+        const active = openTab();
+        const follower = openTab();
+        const onHandover = jest.fn();
+        await acquire(active);
+        await jest.advanceTimersByTimeAsync(1);
+        follower.follow({ onTranscript: jest.fn(), onHandover, onActiveTabStopped: jest.fn() });
+
+        // The tab crashed: no release and no more heartbeats
+        FakeBroadcastChannel.channels[0].close();
+        await jest.advanceTimersByTimeAsync(3000);
+        expect(onHandover).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(onHandover).toHaveBeenCalledTimes(1);
+        expect(follower.isActive()).toBe(true);
+    });
+});
@@ -0,0 +1,518 @@
+import { StartStreamTranscriptionCommand, TranscribeStreamingClient } from '@aws-sdk/client-transcribe-streaming';
+import { TranscribeCredentials, TranscribeSession, transcribeAudio } from '../transcribe-session';
+import { QuotaExceededError, TranscribeError } from '../errors';
+import { MemoryCredentialStore } from '../credential-store';
+import { MemoryUsageStore, UsageMeter } from '../usage-meter';
+import { credentialsProvider, finalResult, mockTranscribe, partialResult } from './helpers';
+
+jest.mock('@aws-sdk/client-transcribe-streaming', () => jest.requireActual('./helpers').createSdkMock());
+
+// 100ms chunks at 16 kHz: silence or a tone loud enough for the default VAD threshold
+const silence = () => new Int16Array(1600);
+const speech = () => new Int16Array(1600).fill(3277);
+
+async function* audioOf(chunks: Int16Array[]) {
+    yield* chunks;
+}
+
+jest.useFakeTimers();
+
+describe('transcribeAudio', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+    });
+
+    test('should resolve with the transcript once Transcribe finished the audio', async () => {
+        mockTranscribe(() => [finalResult('hello world')]);
+
+        const result = await transcribeAudio(audioOf([speech(), speech()]), { credentialsProvider });
+
+        expect(result.transcript).toBe('hello world');
+        expect(result.segments).toHaveLength(1);
+        expect(result.turns).toEqual([expect.objectContaining({ text: 'hello world' })]);
+    });
+
+    test('should gate silence by the position in the audio', async () => {
+        let received: Int16Array[] = [];
+        mockTranscribe(chunks => {
+            received = chunks;
+            return [];
+        });
+
+        const chunks = [
+            ...Array.from({ length: 20 }, silence),
+            ...Array.from({ length: 5 }, speech),
+            ...Array.from({ length: 20 }, silence)
+        ];
+        await transcribeAudio(audioOf(chunks), { credentialsProvider, bufferSize: 1600 });
+
+        // 500ms pre-roll, the speech and 300ms hangover
+        expect(received).toHaveLength(13);
+        expect(received.slice(0, 5).every(chunk => chunk.every(sample => sample === 0))).toBe(true);
+        expect(received.slice(5, 10).every(chunk => chunk[0] === 3277)).toBe(true);
+    });
+
+    test('should regroup incoming audio into chunks of bufferSize frames', async () => {
+        let received: Int16Array[] = [];
+        mockTranscribe(chunks => {
+            received = chunks;
+            return [];
+        });
+
+        const audio = [new Int16Array(1000).fill(3277), new Int16Array(2500).fill(3277)];
+        await transcribeAudio(audioOf(audio), { credentialsProvider, bufferSize: 1600 });
+
+        expect(received.map(chunk => chunk.length)).toEqual([1600, 1600, 300]);
+    });
+
+    test('should enable channel identification for interleaved stereo audio', async () => {
+        mockTranscribe(() => [finalResult('caller', 'ch_0'), finalResult('agent', 'ch_1')]);
+
+        const result = await transcribeAudio(audioOf([new Int16Array(3200).fill(3277)]), {
+            credentialsProvider,
+            channelCount: 2
+        });
+
+        const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+        expect(command).toEqual(expect.objectContaining({ EnableChannelIdentification: true, NumberOfChannels: 2 }));
+        expect(result.segments.map(segment => segment.channelId)).toEqual(['ch_0', 'ch_1']);
+    });
+
+    test('should reject with a TranscribeError when the stream fails for good', async () => {
+        (TranscribeStreamingClient as unknown as jest.Mock).mockImplementation(() => ({
+            send: jest.fn().mockRejectedValue(Object.assign(new Error('Bad language'), { name: 'BadRequestException' })),
+            destroy: jest.fn()
+        }));
+
+        const result = transcribeAudio(audioOf([speech()]), { credentialsProvider });
+
+        await expect(result).rejects.toBeInstanceOf(TranscribeError);
+        await expect(result).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+});
+
+describe('TranscribeSession', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+    });
+
+    test('should buffer audio sent while the stream opens and replay it', async () => {
+        let received: Int16Array[] = [];
+        mockTranscribe(chunks => {
+            received = chunks;
+            return [finalResult('buffered')];
+        });
+        const onTranscript = jest.fn();
+        const session = new TranscribeSession({ credentialsProvider, onTranscript });
+
+        const opening = session.open();
+        session.send(speech());
+        await opening;
+        session.send(speech());
+        await session.end();
+
+        expect(received).toHaveLength(2);
+        expect(onTranscript).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'buffered ' }));
+        session.close();
+    });
+
+    test('should wait for a reconnect before resolving end', async () => {
+        mockTranscribe(() => {
+            throw Object.assign(new Error('Connection reset'), { name: 'InternalFailureException' });
+        });
+        const session = new TranscribeSession({ credentialsProvider, reconnect: { initialDelay: 100 } });
+        await session.open();
+
+        mockTranscribe(() => [finalResult('after reconnect')]);
+        let ended = false;
+        const ending = session.end().then(() => { ended = true; });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(ended).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(100);
+        await ending;
+
+        expect(session.transcriptAssembler.getTranscript()).toBe('after reconnect ');
+        session.close();
+    });
+
+    test('should only report final results when partial results are off', async () => {
+        mockTranscribe(() => [partialResult('hel'), partialResult('hello'), finalResult('hello')]);
+        const onTranscript = jest.fn();
+        const onResult = jest.fn();
+        const session = new TranscribeSession({
+            credentialsProvider,
+            partialResults: false,
+            partialResultsStability: 'low',
+            onTranscript,
+            onResult
+        });
+
+        await session.open();
+        session.send(speech());
+        await session.end();
+
+        const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+        expect(command).toEqual(expect.objectContaining({
+            EnablePartialResultsStabilization: true,
+            PartialResultsStability: 'low'
+        }));
+        expect(onResult).toHaveBeenCalledTimes(1);
+        expect(onTranscript.mock.calls.map(([data]) => [data.transcript, data.interimTranscript])).toEqual([
+            ['hello ', '']
+        ]);
+        session.close();
+    });
+
+    test('should leave out stabilization when it is disabled', async () => {
+        mockTranscribe(() => []);
+        const session = new TranscribeSession({ credentialsProvider, enablePartialResultsStabilization: false });
+
+        await session.open();
+        await session.end();
+
+        const command = (StartStreamTranscriptionCommand as unknown as jest.Mock).mock.calls[0][0];
+        expect(command.EnablePartialResultsStabilization).toBeUndefined();
+        expect(command.PartialResultsStability).toBeUndefined();
+        session.close();
+    });
+
+    test('should throttle interim updates but report final results right away', async () => {
+        mockTranscribe(() => [partialResult('one'), partialResult('one two'), partialResult('one two three')]);
+        const onTranscript = jest.fn();
+        const session = new TranscribeSession({ credentialsProvider, maxInterimUpdatesPerSecond: 2, onTranscript });
+
+        await session.open();
+        session.send(speech());
+        await session.end();
+
+        expect(onTranscript.mock.calls.map(([data]) => data.interimTranscript)).toEqual(['one']);
+
+        // The latest partial is delivered at the end of the interval
+        await jest.advanceTimersByTimeAsync(500);
+        expect(onTranscript.mock.calls.map(([data]) => data.interimTranscript)).toEqual(['one', 'one two three']);
+
+        mockTranscribe(() => [partialResult('four'), finalResult('four five')]);
+        await session.open();
+        session.send(speech());
+        await session.end();
+
+        expect(onTranscript).toHaveBeenCalledTimes(3);
+        expect(onTranscript).toHaveBeenLastCalledWith(expect.objectContaining({ interimTranscript: '' }));
+        session.close();
+    });
+
+    test('should ignore audio after close', async () => {
+        mockTranscribe(() => []);
+        const session = new TranscribeSession({ credentialsProvider });
+
+        await session.open();
+        session.close();
+        session.send(speech());
+
+        await expect(session.end()).resolves.toBeUndefined();
+    });
+});
+
+describe('TranscribeSession credentials', () => {
+    const credentialsExpiringIn = (duration: number, accessKeyId = 'stored-access-key'): TranscribeCredentials => ({
+        accessKeyId,
+        secretAccessKey: 'test-secret-key',
+        sessionToken: 'test-session-token',
+        expiration: new Date(Date.now() + duration)
+    });
+
+    const usedAccessKeyId = () => (TranscribeStreamingClient as unknown as jest.Mock).mock.calls.slice(-1)[0][0]
+        .credentials.accessKeyId;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockTranscribe(() => []);
+    });
+
+    test('should reuse stored credentials outside the refresh window', async () => {
+        const credentialStore = new MemoryCredentialStore();
+        await credentialStore.set('aws_transcribe_credentials_v2', credentialsExpiringIn(3600000));
+        const session = new TranscribeSession({ credentialsProvider, credentialStore });
+
+        await session.open();
+
+        expect(credentialsProvider).not.toHaveBeenCalled();
+        expect(usedAccessKeyId()).toBe('stored-access-key');
+        session.close();
+    });
+
+    test('should refresh stored credentials about to expire', async () => {
+        const credentialStore = new MemoryCredentialStore();
+        await credentialStore.set('aws_transcribe_credentials_v2', credentialsExpiringIn(120000));
+        const session = new TranscribeSession({ credentialsProvider, credentialStore });
+
+        await session.open();
+
+        expect(credentialsProvider).toHaveBeenCalledTimes(1);
+        expect(usedAccessKeyId()).toBe('test-access-key');
+        expect(await credentialStore.get('aws_transcribe_credentials_v2')).toMatchObject({ accessKeyId: 'test-access-key' });
+        session.close();
+    });
+
+    test('should reuse credentials with an expiration string', async () => {
+        // As returned by response.json()
+        const jsonProvider = jest.fn().mockImplementation(async () => ({
+            ...credentialsExpiringIn(3600000, 'json-access-key'),
+            expiration: new Date(Date.now() + 3600000).toISOString()
+        }));
+        const session = new TranscribeSession({ credentialsProvider: jsonProvider });
+
+        await session.open();
+        session.close();
+        await session.open();
+
+        expect(jsonProvider).toHaveBeenCalledTimes(1);
+        expect(usedAccessKeyId()).toBe('json-access-key');
+        session.close();
+    });
+
+    test('should treat credentials without an expiration as expired', async () => {
+        const provider = jest.fn().mockImplementation(async () => {
+            const { expiration: _expiration, ...credentials } = credentialsExpiringIn(3600000, 'no-expiry-key');
+            return credentials;
+        });
+        const session = new TranscribeSession({ credentialsProvider: provider });
+
+        await session.open();
+        session.close();
+        await session.open();
+
+        expect(provider).toHaveBeenCalledTimes(2);
+        expect(usedAccessKeyId()).toBe('no-expiry-key');
+        session.close();
+    });
+
+    test('should share one provider call between concurrent requests', async () => {
+        const session = new TranscribeSession({ credentialsProvider });
+
+        await Promise.all([session.open(), session.open()]);
+
+        expect(credentialsProvider).toHaveBeenCalledTimes(1);
+        session.close();
+    });
+
+    test('should retry a failing provider with backoff', async () => {
+        const flakyProvider = jest.fn()
+            .mockRejectedValueOnce(new Error('Network error'))
+            .mockImplementation(async () => credentialsExpiringIn(3600000, 'fresh-access-key'));
+        const session = new TranscribeSession({ credentialsProvider: flakyProvider });
+
+        const opening = session.open();
+        await jest.advanceTimersByTimeAsync(0);
+        expect(flakyProvider).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        await opening;
+
+        expect(flakyProvider).toHaveBeenCalledTimes(2);
+        expect(usedAccessKeyId()).toBe('fresh-access-key');
+        session.close();
+    });
+
+    test('should keep using credentials about to expire while the provider fails', async () => {
+        const failingProvider = jest.fn().mockRejectedValue(new Error('Network error'));
+        const credentialStore = new MemoryCredentialStore();
+        await credentialStore.set('aws_transcribe_credentials_v2', credentialsExpiringIn(120000));
+        const session = new TranscribeSession({ credentialsProvider: failingProvider, credentialStore });
+
+        const opening = session.open();
+        // Retries after at most 1s and 2s
+        await jest.advanceTimersByTimeAsync(3000);
+        await opening;
+
+        expect(failingProvider).toHaveBeenCalledTimes(3);
+        expect(usedAccessKeyId()).toBe('stored-access-key');
+        session.close();
+    });
+
+    test('should fetch new credentials when the stored ones are corrupt', async () => {
+        const credentialStore = {
+            get: jest.fn().mockRejectedValue(new SyntaxError('Unexpected token')),
+            set: jest.fn().mockResolvedValue(undefined),
+            remove: jest.fn().mockResolvedValue(undefined)
+        };
+        const session = new TranscribeSession({ credentialsProvider, credentialStore, credentialsKey: 'user-1' });
+
+        await session.open();
+
+        expect(credentialStore.remove).toHaveBeenCalledWith('aws_transcribe_credentials_v2:user-1');
+        expect(credentialsProvider).toHaveBeenCalledTimes(1);
+        expect(credentialStore.set).toHaveBeenCalledWith('aws_transcribe_credentials_v2:user-1', expect.objectContaining({
+            accessKeyId: 'test-access-key'
+        }));
+        session.close();
+    });
+
+    test('should delete the legacy plaintext credentials the first time credentials are loaded', async () => {
+        // A fresh module, which hasn't loaded credentials yet
+        let isolated: {
+            sdk: { TranscribeStreamingClient: jest.Mock };
+            session: typeof import('../transcribe-session');
+            store: typeof import('../credential-store');
+        } | undefined;
+        jest.isolateModules(() => {
+            isolated = {
+                sdk: require('@aws-sdk/client-transcribe-streaming'),
+                session: require('../transcribe-session'),
+                store: require('../credential-store')
+            };
+        });
+        const { sdk, session: { TranscribeSession: IsolatedSession }, store } = isolated!;
+        sdk.TranscribeStreamingClient.mockImplementation((TranscribeStreamingClient as unknown as jest.Mock).getMockImplementation());
+        const credentialStore = new store.LocalStorageCredentialStore();
+        localStorage.setItem('aws_transcribe_credentials', JSON.stringify(credentialsExpiringIn(3600000)));
+
+        // Creating a store or session doesn't touch it
+        const session = new IsolatedSession({ credentialsProvider, credentialStore });
+        expect(localStorage.getItem('aws_transcribe_credentials')).not.toBeNull();
+
+        await session.open();
+        session.close();
+        expect(localStorage.getItem('aws_transcribe_credentials')).toBeNull();
+        expect(await credentialStore.get('aws_transcribe_credentials_v2')).toMatchObject({ accessKeyId: 'test-access-key' });
+
+        // Only once, the key is free for the app to use
+        localStorage.setItem('aws_transcribe_credentials', 'kept');
+        await session.open();
+        session.close();
+        expect(localStorage.getItem('aws_transcribe_credentials')).toBe('kept');
+    });
+});
+
+describe('TranscribeSession usage', () => {
+    const reservingProvider = jest.fn().mockImplementation(async (): Promise<TranscribeCredentials> => ({
+        accessKeyId: 'test-access-key',
+        secretAccessKey: 'test-secret-key',
+        sessionToken: 'test-session-token',
+        expiration: new Date(Date.now() + 3600000),
+        // One second
+        reservedMinutes: 1 / 60
+    }));
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should pass the minutes of audio sent to the credentials provider', async () => {
+        let received: Int16Array[] = [];
+        mockTranscribe(chunks => {
+            received = chunks;
+            return [];
+        });
+        const usageMeter = new UsageMeter({ store: new MemoryUsageStore() });
+        const session = new TranscribeSession({ credentialsProvider, usageMeter });
+
+        await session.open();
+        session.send(speech());
+        session.send(speech());
+        session.send(speech());
+        await session.end();
+        session.close();
+        await session.clearCredentials();
+        await session.open();
+
+        expect(received).toHaveLength(3);
+        expect(credentialsProvider).toHaveBeenNthCalledWith(1, 0);
+        expect(credentialsProvider.mock.calls[1][0]).toBeCloseTo(0.3 / 60);
+        session.close();
+    });
+
+    test('should warn before the reserved minutes run out and end the stream once they do', async () => {
+        let received: Int16Array[] = [];
+        mockTranscribe(chunks => {
+            received = chunks;
+            return [finalResult('last words')];
+        });
+        const onQuotaWarning = jest.fn();
+        const onTranscript = jest.fn();
+        const onError = jest.fn();
+        const session = new TranscribeSession({
+            credentialsProvider: reservingProvider,
+            usageMeter: new UsageMeter({ store: new MemoryUsageStore() }),
+            quotaWarningMinutes: 0.25 / 60,
+            onQuotaWarning,
+            onTranscript,
+            onError
+        });
+
+        await session.open();
+        for (let i = 0; i < 8; i++) {
+            session.send(speech());
+        }
+        expect(onQuotaWarning).toHaveBeenCalledTimes(1);
+        expect(onQuotaWarning.mock.calls[0][0].minutesRemaining).toBeCloseTo(0.2 / 60);
+
+        for (let i = 0; i < 4; i++) {
+            session.send(speech());
+        }
+        await jest.advanceTimersByTimeAsync(0);
+
+        // Audio past the reservation isn't sent, but the results of what was are still delivered
+        expect(received).toHaveLength(10);
+        expect(onTranscript).toHaveBeenCalledWith(expect.objectContaining({ transcript: 'last words ' }));
+        expect(onError).toHaveBeenCalledWith(expect.any(QuotaExceededError));
+        expect(onError.mock.calls[0][0]).toMatchObject({ code: 'QUOTA_EXHAUSTED' });
+    });
+
+    test('should ask for new credentials once the reservation is used up', async () => {
+        mockTranscribe(() => []);
+        const session = new TranscribeSession({
+            credentialsProvider: reservingProvider,
+            usageMeter: new UsageMeter({ store: new MemoryUsageStore() })
+        });
+
+        await session.open();
+        for (let i = 0; i < 10; i++) {
+            session.send(speech());
+        }
+        await jest.advanceTimersByTimeAsync(0);
+        await session.open();
+
+        expect(reservingProvider).toHaveBeenCalledTimes(2);
+        session.close();
+    });
+
+    test('should count against the new reservation when the same credentials reserve more minutes', async () => {
+        mockTranscribe(() => []);
+        reservingProvider.mockImplementationOnce(async () => ({
+            accessKeyId: 'test-access-key',
+            secretAccessKey: 'test-secret-key',
+            sessionToken: 'test-session-token',
+            expiration: new Date(Date.now() + 3600000),
+            reservedMinutes: 1 / 60
+        }));
+        reservingProvider.mockImplementationOnce(async () => ({
+            accessKeyId: 'test-access-key',
+            secretAccessKey: 'test-secret-key',
+            sessionToken: 'test-session-token',
+            expiration: new Date(Date.now() + 3600000),
+            reservedMinutes: 100
+        }));
+        const onError = jest.fn();
+        const usageMeter = new UsageMeter({ store: new MemoryUsageStore() });
+        const session = new TranscribeSession({ credentialsProvider: reservingProvider, usageMeter, onError });
+
+        await session.open();
+        for (let i = 0; i < 10; i++) {
+            session.send(speech());
+        }
+        await jest.advanceTimersByTimeAsync(0);
+        expect(onError).toHaveBeenCalledTimes(1);
+
+        await session.open();
+        session.send(speech());
+
+        expect(usageMeter.getReservation()).toMatchObject({ reservedMinutes: 100 });
+        expect(usageMeter.getReservation()?.minutesRemaining).toBeCloseTo(100 - 0.1 / 60);
+        expect(onError).toHaveBeenCalledTimes(1);
+        session.close();
+    });
+});
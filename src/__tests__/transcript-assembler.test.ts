@@ -0,0 +1,196 @@
+import { TranscriptAssembler } from '../transcript-assembler';
+import { TranscribeResult, toTranscriptSegment } from '../transcript-segment';
+
+const result = (
+    resultId: string,
+    isPartial: boolean,
+    startTime: number,
+    words: Array<[string, boolean?]>,
+    channelId?: string
+): TranscribeResult => ({
+    ResultId: resultId,
+    ChannelId: channelId,
+    IsPartial: isPartial,
+    StartTime: startTime,
+    EndTime: startTime + words.length * 0.5,
+    Alternatives: [{
+        Transcript: words.map(([content]) => content).join(' '),
+        Items: words.map(([Content, Stable]) => ({ Content, Stable }))
+    }]
+});
+
+describe('TranscriptAssembler', () => {
+    let assembler: TranscriptAssembler;
+
+    const add = (raw: TranscribeResult) => assembler.add(toTranscriptSegment(raw));
+
+    beforeEach(() => {
+        assembler = new TranscriptAssembler();
+    });
+
+    test('should replace the partial and finalize it', () => {
+        add(result('a', true, 0, [['hello']]));
+        add(result('a', true, 0, [['hello'], ['wor']]));
+        expect(assembler.getInterimTranscript()).toBe('hello wor');
+        expect(assembler.getTranscript()).toBe('');
+
+        add(result('a', false, 0, [['hello'], ['world']]));
+        expect(assembler.getInterimTranscript()).toBe('');
+        expect(assembler.getTranscript()).toBe('hello world ');
+        expect(assembler.getChannel(null)).toMatchObject({ partial: null, segments: [{ resultId: 'a' }] });
+    });
+
+    test('should keep the next partial when a final for the previous result arrives later', () => {
+        add(result('b', true, 2, [['next']]));
+        add(result('a', false, 0, [['first']]));
+
+        expect(assembler.getTranscript()).toBe('first ');
+        expect(assembler.getInterimTranscript()).toBe('next');
+    });
+
+    test('should keep finalized segments ordered by start time', () => {
+        add(result('b', false, 2, [['second']]));
+        add(result('a', false, 0, [['first']]));
+        add(result('c', false, 2, [['third']]));
+
+        expect(assembler.getSegments().map(segment => segment.resultId)).toEqual(['a', 'b', 'c']);
+        expect(assembler.getTranscript()).toBe('first second third ');
+    });
+
+    test('should skip empty final results', () => {
+        add(result('a', false, 0, []));
+        add(result('b', false, 1, [['text']]));
+
+        expect(assembler.getTranscript()).toBe('text ');
+    });
+
+    test('should track channels separately and interleave them by time', () => {
+        add(result('a', false, 0, [['agent', true]], 'ch_0'));
+        add(result('b', true, 1, [['caller']], 'ch_1'));
+        add(result('c', true, 2, [['agent', true], ['again']], 'ch_0'));
+        add(result('b', false, 1, [['caller']], 'ch_1'));
+
+        expect(assembler.getChannels().map(channel => channel.channelId)).toEqual(['ch_0', 'ch_1']);
+        expect(assembler.getChannel('ch_0')?.partial?.resultId).toBe('c');
+        expect(assembler.getChannel('ch_1')?.partial).toBeNull();
+        expect(assembler.getTranscript()).toBe('agent caller ');
+        expect(assembler.getInterimTranscript()).toBe('agent again');
+    });
+
+    test('should keep words stable once they were flagged', () => {
+        add(result('a', true, 0, [['one', true], ['two']]));
+        const update = add(result('a', true, 0, [['one'], ['too'], ['three']]));
+
+        expect(update.words.map(word => word.stable)).toEqual([true, false, false]);
+        expect(update.alternatives[0].words).toBe(update.words);
+    });
+
+    test('should not carry stable flags to changed words or other results', () => {
+        add(result('a', true, 0, [['one', true]]));
+        expect(add(result('a', true, 0, [['won']])).words[0].stable).toBe(false);
+
+        add(result('a', true, 0, [['one', true]]));
+        expect(add(result('b', true, 0, [['one']])).words[0].stable).toBe(false);
+    });
+
+    test('should clear segments and partials independently', () => {
+        add(result('a', false, 0, [['done']]));
+        add(result('b', true, 1, [['pending']]));
+
+        assembler.clearSegments();
+        expect(assembler.getTranscript()).toBe('');
+        expect(assembler.getInterimTranscript()).toBe('pending');
+
+        assembler.clearPartials();
+        expect(assembler.getPartials()).toEqual([]);
+    });
+});
+
+describe('TranscriptAssembler turns', () => {
+    const diarized = (
+        resultId: string,
+        words: Array<[string, string | undefined, number, string?]>,
+        channelId?: string
+    ): TranscribeResult => ({
+        ResultId: resultId,
+        ChannelId: channelId,
+        IsPartial: false,
+        StartTime: words[0][2],
+        EndTime: words[words.length - 1][2] + 0.25,
+        Alternatives: [{
+            Transcript: words.map(([content]) => content).join(' '),
+            Items: words.map(([Content, Speaker, StartTime, Type]) => ({
+                Content,
+                Speaker,
+                StartTime,
+                EndTime: StartTime + 0.25,
+                Type: Type || 'pronunciation'
+            }))
+        }]
+    });
+
+    test('should group consecutive words of a speaker across segments', () => {
+        const assembler = new TranscriptAssembler();
+        assembler.add(toTranscriptSegment(diarized('a', [
+            ['How', '0', 0],
+            ['are', '0', 0.5],
+            ['you', '0', 1],
+            ['?', undefined, 1.25, 'punctuation'],
+            ['Fine', '1', 1.5]
+        ])));
+        assembler.add(toTranscriptSegment(diarized('b', [
+            ['thanks', '1', 2],
+            ['.', undefined, 2.25, 'punctuation'],
+            ['Great', '0', 3]
+        ])));
+
+        expect(assembler.getTurns()).toEqual([
+            { speaker: '0', channelId: null, text: 'How are you?', startTime: 0, endTime: 1.5 },
+            { speaker: '1', channelId: null, text: 'Fine thanks.', startTime: 1.5, endTime: 2.5 },
+            { speaker: '0', channelId: null, text: 'Great', startTime: 3, endTime: 3.25 }
+        ]);
+    });
+
+    test('should start a new turn when the channel changes', () => {
+        const assembler = new TranscriptAssembler();
+        assembler.add(toTranscriptSegment(diarized('a', [['Hello', undefined, 0]], 'ch_0')));
+        assembler.add(toTranscriptSegment(diarized('b', [['Hi', undefined, 1]], 'ch_1')));
+
+        expect(assembler.getTurns().map(turn => [turn.channelId, turn.text])).toEqual([
+            ['ch_0', 'Hello'],
+            ['ch_1', 'Hi']
+        ]);
+    });
+
+    test('should fit in a final that arrives after later ones', () => {
+        const assembler = new TranscriptAssembler();
+        assembler.add(toTranscriptSegment(diarized('a', [['Hello', '0', 0]], 'ch_0')));
+        assembler.add(toTranscriptSegment(diarized('c', [['there', '0', 2]], 'ch_0')));
+        const before = assembler.getTurns();
+
+        // The other channel lagged behind
+        assembler.add(toTranscriptSegment(diarized('b', [['Hi', '1', 1]], 'ch_1')));
+
+        expect(before).toEqual([{ speaker: '0', channelId: 'ch_0', text: 'Hello there', startTime: 0, endTime: 2.25 }]);
+        expect(assembler.getTurns().map(turn => [turn.channelId, turn.text])).toEqual([
+            ['ch_0', 'Hello'],
+            ['ch_1', 'Hi'],
+            ['ch_0', 'there']
+        ]);
+        expect(assembler.getTranscript()).toBe('Hello Hi there ');
+
+        assembler.add(toTranscriptSegment(diarized('d', [['again', '0', 3]], 'ch_0')));
+        expect(assembler.getTurns()[2]).toMatchObject({ text: 'there again', endTime: 3.25 });
+        expect(assembler.getTranscript()).toBe('Hello Hi there again ');
+    });
+
+    test('should use the transcript of segments without word items', () => {
+        const assembler = new TranscriptAssembler();
+        assembler.add(toTranscriptSegment({ ResultId: 'a', StartTime: 0, EndTime: 1, Alternatives: [{ Transcript: 'Hi.' }] }));
+        assembler.add(toTranscriptSegment({ ResultId: 'b', StartTime: 1, EndTime: 2, Alternatives: [{ Transcript: 'Bye.' }] }));
+
+        expect(assembler.getTurns()).toEqual([
+            { speaker: null, channelId: null, text: 'Hi. Bye.', startTime: 0, endTime: 2 }
+        ]);
+    });
+});
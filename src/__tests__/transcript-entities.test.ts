@@ -0,0 +1,76 @@
+import { redactTranscript, splitByEntities } from '../transcript-entities';
+import { toTranscriptSegment } from '../transcript-segment';
+
+// "Call John Smith at 555 0100." with the name and the number identified as PII
+const segment = toTranscriptSegment({
+    ResultId: 'abc',
+    StartTime: 0,
+    EndTime: 3,
+    Alternatives: [{
+        Transcript: 'Call John Smith at 555 0100.',
+        Items: [
+            { Content: 'Call', Type: 'pronunciation', StartTime: 0, EndTime: 0.4 },
+            { Content: 'John', Type: 'pronunciation', StartTime: 0.5, EndTime: 0.8 },
+            { Content: 'Smith', Type: 'pronunciation', StartTime: 0.8, EndTime: 1.2 },
+            { Content: 'at', Type: 'pronunciation', StartTime: 1.3, EndTime: 1.4 },
+            { Content: '555', Type: 'pronunciation', StartTime: 1.5, EndTime: 2.2 },
+            { Content: '0100', Type: 'pronunciation', StartTime: 2.3, EndTime: 3 },
+            { Content: '.', Type: 'punctuation', StartTime: 3, EndTime: 3 }
+        ],
+        Entities: [
+            { Category: 'PII', Type: 'NAME', Content: 'John Smith', StartTime: 0.5, EndTime: 1.2, Confidence: 0.99 },
+            { Category: 'PII', Type: 'PHONE', Content: '555 0100', StartTime: 1.5, EndTime: 3, Confidence: 0.9 }
+        ]
+    }]
+}, 10);
+
+describe('splitByEntities', () => {
+    test('should split the transcript into plain and entity parts', () => {
+        const parts = splitByEntities(segment);
+
+        expect(parts.map(part => [part.text, part.entity?.type ?? null])).toEqual([
+            ['Call ', null],
+            ['John Smith', 'NAME'],
+            [' at ', null],
+            ['555 0100', 'PHONE'],
+            ['.', null]
+        ]);
+        expect(parts[1].entity).toMatchObject({ category: 'PII', startTime: 10.5, endTime: 11.2 });
+    });
+
+    test('should keep adjacent entities apart', () => {
+        const adjacent = toTranscriptSegment({
+            ResultId: 'abc',
+            Alternatives: [{
+                Transcript: 'John 555',
+                Items: [
+                    { Content: 'John', Type: 'pronunciation', StartTime: 0, EndTime: 0.4 },
+                    { Content: '555', Type: 'pronunciation', StartTime: 0.5, EndTime: 0.9 }
+                ],
+                Entities: [
+                    { Category: 'PII', Type: 'NAME', StartTime: 0, EndTime: 0.4 },
+                    { Category: 'PII', Type: 'PHONE', StartTime: 0.5, EndTime: 0.9 }
+                ]
+            }]
+        });
+
+        expect(splitByEntities(adjacent).map(part => part.text)).toEqual(['John', ' ', '555']);
+    });
+
+    test('should return segments without words as a single plain part', () => {
+        const plain = toTranscriptSegment({ ResultId: 'abc', Alternatives: [{ Transcript: 'Hello' }] });
+
+        expect(splitByEntities(plain)).toEqual([{ text: 'Hello', entity: null }]);
+        expect(splitByEntities(toTranscriptSegment({ ResultId: 'abc' }))).toEqual([]);
+    });
+});
+
+describe('redactTranscript', () => {
+    test('should replace entities with their type', () => {
+        expect(redactTranscript(segment)).toBe('Call [NAME] at [PHONE].');
+    });
+
+    test('should use a custom replacement', () => {
+        expect(redactTranscript(segment, entity => '*'.repeat(entity.content.length))).toBe('Call ********** at ********.');
+    });
+});
@@ -0,0 +1,95 @@
+import { toTranscriptSegment } from '../transcript-segment';
+
+describe('toTranscriptSegment', () => {
+    test('should convert items, alternatives and timestamps', () => {
+        const segment = toTranscriptSegment({
+            ResultId: 'abc',
+            IsPartial: false,
+            StartTime: 1,
+            EndTime: 2,
+            Alternatives: [
+                {
+                    Transcript: 'Hi there.',
+                    Items: [
+                        { Content: 'Hi', Type: 'pronunciation', StartTime: 1, EndTime: 1.4, Confidence: 0.8 },
+                        { Content: 'there', Type: 'pronunciation', StartTime: 1.5, EndTime: 2, Confidence: 0.6 },
+                        { Content: '.', Type: 'punctuation', StartTime: 2, EndTime: 2 }
+                    ]
+                },
+                { Transcript: 'High there.' }
+            ]
+        }, 10);
+
+        expect(segment).toMatchObject({
+            resultId: 'abc',
+            channelId: null,
+            isPartial: false,
+            startTime: 11,
+            endTime: 12,
+            transcript: 'Hi there.'
+        });
+        expect(segment.confidence).toBeCloseTo(0.7);
+        expect(segment.words[0]).toEqual({
+            content: 'Hi',
+            type: 'pronunciation',
+            startTime: 11,
+            endTime: 11.4,
+            confidence: 0.8,
+            stable: true,
+            speaker: null,
+            vocabularyFilterMatch: false
+        });
+        expect(segment.words[2]).toMatchObject({ type: 'punctuation', confidence: null });
+        expect(segment.alternatives.map(alternative => alternative.transcript)).toEqual(['Hi there.', 'High there.']);
+        expect(segment.alternatives[1].words).toEqual([]);
+    });
+
+    test('should only mark partial words stable when Transcribe says so', () => {
+        const segment = toTranscriptSegment({
+            ResultId: 'abc',
+            IsPartial: true,
+            Alternatives: [{
+                Transcript: 'Hi there',
+                Items: [{ Content: 'Hi', Stable: true }, { Content: 'there' }]
+            }]
+        });
+
+        expect(segment.words.map(word => word.stable)).toEqual([true, false]);
+        expect(segment.confidence).toBeNull();
+    });
+
+    test('should flag words tagged by the vocabulary filter', () => {
+        const segment = toTranscriptSegment({
+            ResultId: 'abc',
+            Alternatives: [{
+                Transcript: 'Take Zyrtex daily',
+                Items: [
+                    { Content: 'Take', Type: 'pronunciation' },
+                    { Content: 'Zyrtex', Type: 'pronunciation', VocabularyFilterMatch: true },
+                    { Content: 'daily', Type: 'pronunciation' }
+                ]
+            }]
+        });
+
+        expect(segment.words.map(word => word.vocabularyFilterMatch)).toEqual([false, true, false]);
+    });
+
+    test('should report the identified language and its score', () => {
+        const segment = toTranscriptSegment({
+            ResultId: 'abc',
+            LanguageCode: 'es-US',
+            LanguageIdentification: [
+                { LanguageCode: 'en-US', Score: 0.2 },
+                { LanguageCode: 'es-US', Score: 0.8 }
+            ],
+            Alternatives: [{ Transcript: 'Hola' }]
+        });
+
+        expect(segment).toMatchObject({ languageCode: 'es-US', languageConfidence: 0.8 });
+        expect(toTranscriptSegment({ ResultId: 'abc' })).toMatchObject({ languageCode: null, languageConfidence: null });
+    });
+
+    test('should handle results without alternatives', () => {
+        expect(toTranscriptSegment({ ResultId: 'abc' })).toMatchObject({ transcript: '', words: [], alternatives: [] });
+    });
+});
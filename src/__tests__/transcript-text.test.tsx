@@ -0,0 +1,46 @@
+import * as React from 'react';
+import { render } from '@testing-library/react';
+import { TranscriptText } from '../transcript-text';
+import { toTranscriptSegment } from '../transcript-segment';
+
+import '@testing-library/jest-dom';
+
+const segment = toTranscriptSegment({
+    ResultId: 'abc',
+    Alternatives: [{
+        Transcript: 'Call John now',
+        Items: [
+            { Content: 'Call', Type: 'pronunciation', StartTime: 0, EndTime: 0.4 },
+            { Content: 'John', Type: 'pronunciation', StartTime: 0.5, EndTime: 0.8 },
+            { Content: 'now', Type: 'pronunciation', StartTime: 0.9, EndTime: 1.2 }
+        ],
+        Entities: [{ Category: 'PII', Type: 'NAME', Content: 'John', StartTime: 0.5, EndTime: 0.8 }]
+    }]
+});
+
+describe('TranscriptText', () => {
+    test('should highlight entities', () => {
+        const { container } = render(<TranscriptText segment={segment} />);
+
+        expect(container).toHaveTextContent('Call John now');
+        const mark = container.querySelector('mark');
+        expect(mark).toHaveTextContent('John');
+        expect(mark).toHaveClass('aws-transcribe-entity');
+        expect(mark).toHaveAttribute('data-entity-type', 'NAME');
+    });
+
+    test('should redact entities', () => {
+        const { container } = render(<TranscriptText segment={segment} redact />);
+
+        expect(container).toHaveTextContent('Call [NAME] now');
+    });
+
+    test('should render entities with renderEntity', () => {
+        const { container } = render(
+            <TranscriptText segment={segment} renderEntity={(entity, text) => <strong>{text}</strong>} />
+        );
+
+        expect(container.querySelector('strong')).toHaveTextContent('John');
+        expect(container.querySelector('mark')).toBeNull();
+    });
+});
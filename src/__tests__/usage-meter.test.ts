@@ -0,0 +1,102 @@
+import { LocalStorageUsageStore, MemoryUsageStore, UsageMeter } from '../usage-meter';
+
+describe('UsageMeter', () => {
+    test('should add up the recorded audio in minutes', async () => {
+        const meter = new UsageMeter({ store: new MemoryUsageStore() });
+
+        meter.record(30);
+        meter.record(15);
+
+        expect(await meter.getMinutesUsed()).toBeCloseTo(0.75);
+    });
+
+    test('should save usage per key and billing period', async () => {
+        const store = new MemoryUsageStore();
+        const meter = new UsageMeter({ store, key: 'user-1', billingPeriod: () => '2025-01' });
+
+        meter.record(5);
+        expect(await store.get('aws_transcribe_minutes_used:user-1:2025-01')).toBe(0);
+
+        // Saved every 10 seconds of audio, and on save()
+        meter.record(7);
+        await meter.save();
+        expect(await store.get('aws_transcribe_minutes_used:user-1:2025-01')).toBeCloseTo(0.2);
+
+        meter.record(6);
+        await meter.save();
+        expect(await store.get('aws_transcribe_minutes_used:user-1:2025-01')).toBeCloseTo(0.3);
+        expect(await new UsageMeter({ store, key: 'user-2', billingPeriod: () => '2025-01' }).getMinutesUsed()).toBe(0);
+    });
+
+    test('should start from zero in a new billing period', async () => {
+        const store = new MemoryUsageStore();
+        let period = '2025-01';
+        const meter = new UsageMeter({ store, billingPeriod: () => period });
+
+        meter.record(60);
+        await meter.save();
+        period = '2025-02';
+
+        expect(await meter.getMinutesUsed()).toBe(0);
+    });
+
+    test('should retry failed writes with the next save', async () => {
+        const store = new MemoryUsageStore();
+        const add = jest.spyOn(store, 'add').mockRejectedValueOnce(new Error('Quota exceeded'));
+        const meter = new UsageMeter({ store });
+
+        meter.record(30);
+        await meter.save();
+        meter.record(30);
+        await meter.save();
+
+        expect(add).toHaveBeenCalledTimes(2);
+        expect(await meter.getMinutesUsed()).toBeCloseTo(1);
+    });
+
+    test('should count the reserved minutes per set of credentials', () => {
+        const meter = new UsageMeter({ store: new MemoryUsageStore() });
+
+        meter.record(60);
+        expect(meter.getReservation()).toBeNull();
+
+        meter.reserve('key-1', 10);
+        meter.record(120);
+        meter.reserve('key-1', 10);
+        meter.record(60);
+        expect(meter.getReservation()).toEqual({
+            credentialsId: 'key-1',
+            reservedMinutes: 10,
+            minutesUsed: 3,
+            minutesRemaining: 7
+        });
+
+        meter.reserve('key-2', 5);
+        expect(meter.getReservation()).toMatchObject({ minutesUsed: 0, minutesRemaining: 5 });
+
+        // The same credentials with more minutes reserved
+        meter.record(300);
+        meter.reserve('key-2', 20);
+        expect(meter.getReservation()).toMatchObject({ reservedMinutes: 20, minutesUsed: 0, minutesRemaining: 20 });
+
+        meter.reserve('key-3', undefined);
+        expect(meter.getReservation()).toBeNull();
+    });
+});
+
+describe('LocalStorageUsageStore', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    test('should keep minutes in localStorage', async () => {
+        const store = new LocalStorageUsageStore();
+
+        await store.add('minutes', 1.5);
+        await store.add('minutes', 2);
+
+        expect(await store.get('minutes')).toBe(3.5);
+        expect(localStorage.getItem('minutes')).toBe('3.5');
+        expect(await store.get('other')).toBe(0);
+    });
+});
@@ -0,0 +1,152 @@
+import { act, renderHook } from '@testing-library/react';
+import { AWSTranscribeClient, TranscribeCredentials, TranscribeOptions } from '../aws-transcribe-client';
+import { BrowserNotSupportedError } from '../errors';
+import { MemoryCredentialStore } from '../credential-store';
+import { useAWSTranscribe } from '../use-aws-transcribe';
+
+jest.mock('../aws-transcribe-client', () => ({
+    AWSTranscribeClient: jest.fn().mockImplementation(() => ({
+        isBrowserSupported: jest.fn().mockReturnValue(true),
+        start: jest.fn().mockResolvedValue(true),
+        stop: jest.fn().mockReturnValue(true),
+        toggle: jest.fn().mockResolvedValue(true),
+        pause: jest.fn().mockReturnValue(true),
+        resume: jest.fn().mockReturnValue(true),
+        clearCredentials: jest.fn().mockResolvedValue(undefined),
+        getState: jest.fn().mockReturnValue({ isListening: false, isActivelySpeaking: false })
+    }))
+}));
+
+const mockCredentialsProvider = jest.fn().mockImplementation(async (): Promise<TranscribeCredentials> => ({
+    accessKeyId: 'test-access-key',
+    secretAccessKey: 'test-secret-key',
+    sessionToken: 'test-session-token',
+    expiration: new Date(Date.now() + 3600000)
+}));
+
+const ClientMock = AWSTranscribeClient as unknown as jest.Mock;
+
+// Options the hook passed to the latest client
+const clientOptions = (): Required<TranscribeOptions> => ClientMock.mock.calls[ClientMock.mock.calls.length - 1][0];
+const latestClient = () => ClientMock.mock.results[ClientMock.mock.results.length - 1].value;
+
+describe('useAWSTranscribe', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('should keep the state and transcript of the client', () => {
+        const { result } = renderHook(() => useAWSTranscribe({ credentialsProvider: mockCredentialsProvider }));
+        const resetTranscript = jest.fn();
+
+        act(() => {
+            clientOptions().onStateChange({ isListening: true, isActivelySpeaking: true, silenceCountdown: 3 });
+            clientOptions().onTranscript({ transcript: 'hello', interimTranscript: 'wor', turns: [], resetTranscript });
+        });
+
+        expect(result.current).toEqual(expect.objectContaining({
+            isListening: true,
+            isActivelySpeaking: true,
+            silenceCountdown: 3,
+            transcript: 'hello',
+            interimTranscript: 'wor'
+        }));
+
+        act(() => result.current.reset());
+
+        expect(resetTranscript).toHaveBeenCalled();
+        expect(result.current.transcript).toBe('');
+        expect(result.current.interimTranscript).toBe('');
+    });
+
+    test('should call the latest callbacks without recreating the client', () => {
+        const first = jest.fn();
+        const second = jest.fn();
+        const { rerender } = renderHook(({ onSpeechStart }) => useAWSTranscribe({
+            credentialsProvider: () => mockCredentialsProvider(),
+            onSpeechStart
+        }), { initialProps: { onSpeechStart: first } });
+
+        rerender({ onSpeechStart: second });
+        clientOptions().onSpeechStart();
+
+        expect(ClientMock).toHaveBeenCalledTimes(1);
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalled();
+    });
+
+    test('should recreate the client when an option changes', () => {
+        const { rerender } = renderHook(({ languageCode }) => useAWSTranscribe({
+            credentialsProvider: mockCredentialsProvider,
+            languageCode
+        }), { initialProps: { languageCode: 'en-US' } });
+        const previous = latestClient();
+        previous.getState.mockReturnValue({ isListening: true, isActivelySpeaking: false });
+
+        rerender({ languageCode: 'fr-CA' });
+
+        expect(ClientMock).toHaveBeenCalledTimes(2);
+        expect(clientOptions().languageCode).toBe('fr-CA');
+        expect(previous.stop).toHaveBeenCalled();
+    });
+
+    test('should keep the session when inline object options are passed again', () => {
+        const { result } = renderHook(() => useAWSTranscribe({
+            credentialsProvider: mockCredentialsProvider,
+            medical: { specialty: 'PRIMARYCARE', type: 'CONVERSATION' } as TranscribeOptions['medical'],
+            piiEntityTypes: ['NAME'],
+            rollover: { lead: 30000 }
+        }));
+        const client = latestClient();
+        client.getState.mockReturnValue({ isListening: true, isActivelySpeaking: false });
+
+        // The transcript update renders again, with new identities for the options
+        act(() => {
+            clientOptions().onTranscript({ transcript: 'hello', interimTranscript: '', turns: [], resetTranscript: jest.fn() });
+        });
+
+        expect(result.current.transcript).toBe('hello');
+        expect(ClientMock).toHaveBeenCalledTimes(1);
+        expect(client.stop).not.toHaveBeenCalled();
+    });
+
+    test('should use new instance options from the next start', async () => {
+        const firstStore = new MemoryCredentialStore();
+        const secondStore = new MemoryCredentialStore();
+        const { result, rerender } = renderHook(({ credentialStore }) => useAWSTranscribe({
+            credentialsProvider: mockCredentialsProvider,
+            credentialStore
+        }), { initialProps: { credentialStore: firstStore } });
+
+        rerender({ credentialStore: firstStore });
+        await act(async () => {
+            await result.current.start();
+        });
+        expect(ClientMock).toHaveBeenCalledTimes(1);
+
+        rerender({ credentialStore: secondStore });
+        expect(ClientMock).toHaveBeenCalledTimes(1);
+
+        await act(async () => {
+            await result.current.start();
+        });
+        expect(ClientMock).toHaveBeenCalledTimes(2);
+        expect(clientOptions().credentialStore).toBe(secondStore);
+        expect(latestClient().start).toHaveBeenCalled();
+    });
+
+    test('should keep the error when starting fails', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const { result } = renderHook(() => useAWSTranscribe({ credentialsProvider: mockCredentialsProvider }));
+        latestClient().start.mockRejectedValueOnce(new BrowserNotSupportedError('Not supported'));
+
+        let started: boolean | undefined;
+        await act(async () => {
+            started = await result.current.start();
+        });
+
+        expect(started).toBe(false);
+        expect(result.current.error?.code).toBe('BROWSER_NOT_SUPPORTED');
+        consoleError.mockRestore();
+    });
+});
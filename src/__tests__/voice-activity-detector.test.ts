@@ -0,0 +1,89 @@
+import { AdaptiveVoiceActivityDetector, RMSVoiceActivityDetector } from '../voice-activity-detector';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 1600;
+
+// Deterministic pseudo-random noise so the tests don't flake
+const createNoise = (amplitude: number, seed = 1) => {
+    let state = seed;
+    const samples = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < samples.length; i++) {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        samples[i] = (state / 2147483648 * 2 - 1) * amplitude;
+    }
+    return samples;
+};
+
+const createTone = (frequency: number, amplitude: number) => {
+    const samples = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * amplitude;
+    }
+    return samples;
+};
+
+const mix = (a: Float32Array, b: Float32Array) => a.map((value, i) => value + b[i]);
+
+describe('RMSVoiceActivityDetector', () => {
+    test('should compare the RMS level against the threshold', () => {
+        const detector = new RMSVoiceActivityDetector(0.02);
+
+        expect(detector.detect(new Float32Array(FRAME_SIZE).fill(0.01))).toBe(false);
+        expect(detector.detect(new Float32Array(FRAME_SIZE).fill(0.03))).toBe(true);
+        expect(detector.detect(new Float32Array(0))).toBe(false);
+    });
+});
+
+describe('AdaptiveVoiceActivityDetector', () => {
+    let detector: AdaptiveVoiceActivityDetector;
+
+    const calibrate = (amplitude: number) => {
+        // Ten 100ms frames make up the default one second calibration period
+        for (let i = 0; i < 10; i++) {
+            expect(detector.detect(createNoise(amplitude, i + 1), SAMPLE_RATE)).toBe(false);
+        }
+        expect(detector.getNoiseFloor()).not.toBeNull();
+    };
+
+    beforeEach(() => {
+        detector = new AdaptiveVoiceActivityDetector();
+        detector.reset();
+    });
+
+    test('should not report speech while calibrating', () => {
+        expect(detector.detect(createTone(440, 0.5), SAMPLE_RATE)).toBe(false);
+        expect(detector.getNoiseFloor()).toBeNull();
+    });
+
+    test('should detect a voice-band signal above loud background noise', () => {
+        calibrate(0.1);
+
+        expect(detector.detect(createNoise(0.1, 42), SAMPLE_RATE)).toBe(false);
+        expect(detector.detect(mix(createNoise(0.1, 43), createTone(440, 0.5)), SAMPLE_RATE)).toBe(true);
+    });
+
+    test('should ignore low-frequency hum', () => {
+        calibrate(0.001);
+
+        expect(detector.detect(createTone(50, 0.5), SAMPLE_RATE)).toBe(false);
+    });
+
+    test('should adapt when the background noise rises', () => {
+        calibrate(0.001);
+
+        const quietFloor = detector.getNoiseFloor()!;
+
+        // Quiet room calibration, then a fan turns on
+        for (let i = 0; i < 100; i++) {
+            detector.detect(createNoise(0.05, i + 100), SAMPLE_RATE);
+        }
+        expect(detector.getNoiseFloor()!).toBeGreaterThan(quietFloor * 100);
+    });
+
+    test('should recalibrate after reset', () => {
+        calibrate(0.001);
+        detector.reset();
+
+        expect(detector.getNoiseFloor()).toBeNull();
+    });
+});
@@ -0,0 +1,77 @@
+import { VoiceActivityGate } from '../voice-activity-gate';
+
+// 100ms chunks at 16 kHz
+const CHUNK = 1600;
+
+const chunk = (value: number) => new Int16Array(CHUNK).fill(value);
+
+describe('VoiceActivityGate', () => {
+    let sent: Int16Array[];
+    let gate: VoiceActivityGate;
+
+    beforeEach(() => {
+        sent = [];
+        gate = new VoiceActivityGate({
+            sampleRate: 16000,
+            channelCount: 1,
+            preRollDuration: 300,
+            hangoverDuration: 200,
+            send: pcmData => sent.push(pcmData)
+        });
+        gate.reset(0);
+    });
+
+    test('should hold back audio until voice is detected', () => {
+        gate.process(chunk(1), false, 0);
+        gate.process(chunk(2), false, 100);
+
+        expect(sent).toHaveLength(0);
+    });
+
+    test('should send the pre-roll before the first voiced chunk', () => {
+        for (let i = 0; i < 5; i++) {
+            gate.process(chunk(i + 1), false, i * 100);
+        }
+        gate.process(chunk(9), true, 500);
+
+        // Only the last 300ms before the voice are kept
+        expect(sent.map(pcmData => pcmData[0])).toEqual([3, 4, 5, 9]);
+    });
+
+    test('should keep sending for the hangover after the last voiced chunk', () => {
+        gate.process(chunk(1), true, 0);
+        gate.process(chunk(2), false, 100);
+        gate.process(chunk(3), false, 200);
+        gate.process(chunk(4), false, 300);
+
+        expect(sent.map(pcmData => pcmData[0])).toEqual([1, 2, 3]);
+    });
+
+    test('should send silence while the gate stays closed for too long', () => {
+        for (let time = 0; time <= 10000; time += 100) {
+            gate.process(chunk(1), false, time);
+        }
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].every(sample => sample === 0)).toBe(true);
+    });
+
+    test('should size the pre-roll in frames for interleaved audio', () => {
+        gate = new VoiceActivityGate({
+            sampleRate: 16000,
+            channelCount: 2,
+            preRollDuration: 200,
+            hangoverDuration: 0,
+            send: pcmData => sent.push(pcmData)
+        });
+        gate.reset(0);
+
+        // 100ms of stereo audio is 3200 samples
+        for (let i = 0; i < 4; i++) {
+            gate.process(new Int16Array(CHUNK * 2).fill(i + 1), false, i * 100);
+        }
+        gate.process(new Int16Array(CHUNK * 2).fill(9), true, 400);
+
+        expect(sent.map(pcmData => pcmData[0])).toEqual([3, 4, 9]);
+    });
+});
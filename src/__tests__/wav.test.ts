@@ -0,0 +1,56 @@
+import { AudioFormatError } from '../errors';
+import { isWav, parseWav } from '../wav';
+import { createWav, fmtChunk } from './helpers';
+
+describe('parseWav', () => {
+    test('should decode interleaved 16-bit PCM', () => {
+        const samples = new Int16Array([16384, -16384, 32767, -32768]);
+        const wav = createWav(fmtChunk(1, 2, 8000, 16), new Uint8Array(samples.buffer), true);
+
+        const decoded = parseWav(wav);
+
+        expect(decoded.sampleRate).toBe(8000);
+        expect(decoded.channels).toHaveLength(2);
+        expect(Array.from(decoded.channels[0])).toEqual([0.5, 32767 / 32768]);
+        expect(Array.from(decoded.channels[1])).toEqual([-0.5, -1]);
+    });
+
+    test('should decode 32-bit float samples', () => {
+        const samples = new Float32Array([0.25, -0.75]);
+        const decoded = parseWav(createWav(fmtChunk(3, 1, 44100, 32), new Uint8Array(samples.buffer)));
+
+        expect(decoded.sampleRate).toBe(44100);
+        expect(Array.from(decoded.channels[0])).toEqual([0.25, -0.75]);
+    });
+
+    test('should decode 24-bit PCM', () => {
+        // 0x400000 and -0x400000 are half of full scale
+        const data = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+        const decoded = parseWav(createWav(fmtChunk(1, 1, 16000, 24), data));
+
+        expect(Array.from(decoded.channels[0])).toEqual([0.5, -0.5]);
+    });
+
+    test('should read the format of WAVE_FORMAT_EXTENSIBLE files from the sub-format', () => {
+        const samples = new Int16Array([8192]);
+        // cbSize, valid bits, channel mask (two words), sub-format GUID starting with the PCM tag
+        const fmt = [...fmtChunk(0xfffe, 1, 16000, 16), 22, 16, 4, 0, 1, 0, 0, 0x10, 0x80, 0, 0xaa, 0x3800, 0x719b];
+        const decoded = parseWav(createWav(fmt, new Uint8Array(samples.buffer)));
+
+        expect(Array.from(decoded.channels[0])).toEqual([0.25]);
+    });
+
+    test('should reject compressed WAV files', () => {
+        const wav = createWav(fmtChunk(0x0055, 1, 16000, 16), new Uint8Array(4));
+
+        expect(() => parseWav(wav)).toThrow(AudioFormatError);
+        expect(() => parseWav(wav)).toThrow(/format 85/);
+    });
+
+    test('should reject data without a RIFF header', () => {
+        const data = new Uint8Array(64);
+
+        expect(isWav(data)).toBe(false);
+        expect(() => parseWav(data)).toThrow(AudioFormatError);
+    });
+});
@@ -0,0 +1,184 @@
+import { Resampler } from './resampler';
+import { AudioFormatError, BrowserNotSupportedError } from './errors';
+import { DecodedAudio, isWav, parseWav } from './wav';
+import {
+    BUFFER_SIZE,
+    SAMPLE_RATE,
+    TranscribeAudioOptions,
+    TranscribeAudioResult,
+    transcribeAudio
+} from './transcribe-session';
+
+export interface TranscribeFileProgress {
+    // Seconds of the file sent to Transcribe so far, including silence held back with skipSilence
+    position: number;
+    // Length of the file in seconds
+    duration: number;
+    // position / duration, between 0 and 1
+    progress: number;
+}
+
+export interface TranscribeFileOptions extends TranscribeAudioOptions {
+    // Keep the two channels of a stereo file apart (ch_0 and ch_1) instead of mixing them down to mono
+    channelIdentification?: boolean;
+    onProgress?: (progress: TranscribeFileProgress) => void;
+}
+
+interface WebkitWindow extends Window {
+    webkitOfflineAudioContext?: typeof OfflineAudioContext;
+}
+
+const FILE_SPEED = 1; // Files are sent at real time unless a speed is given
+const DECODE_SAMPLE_RATE = 44100; // Rate of the context decoding non-WAV files, resampled afterwards
+
+// Converts float channels to interleaved int16 PCM
+const toInterleavedPCM = (channels: Float32Array[]): Int16Array => {
+    const frames = channels[0].length;
+    const pcmData = new Int16Array(frames * channels.length);
+
+    for (let i = 0; i < frames; i++) {
+        for (let channel = 0; channel < channels.length; channel++) {
+            const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+            pcmData[i * channels.length + channel] = Math.floor(sample * 32767);
+        }
+    }
+
+    return pcmData;
+};
+
+const mixDown = (channels: Float32Array[]): Float32Array => {
+    if (channels.length === 1) return channels[0];
+
+    const mix = new Float32Array(channels[0].length);
+
+    for (let i = 0; i < mix.length; i++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels.length; channel++) {
+            sum += channels[channel][i];
+        }
+        mix[i] = sum / channels.length;
+    }
+
+    return mix;
+};
+
+// Blob.arrayBuffer() is missing in Safari before 14
+const readBlob = (blob: Blob): Promise<ArrayBuffer> => {
+    if (typeof blob.arrayBuffer === 'function') {
+        return blob.arrayBuffer();
+    }
+
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(blob);
+    });
+};
+
+const decodeWithWebAudio = (data: ArrayBuffer): Promise<DecodedAudio> => {
+    const OfflineAudioContextClass = typeof window === 'undefined'
+        ? undefined
+        : window.OfflineAudioContext || (window as WebkitWindow).webkitOfflineAudioContext;
+    if (!OfflineAudioContextClass) {
+        return Promise.reject(new BrowserNotSupportedError("Your browser doesn't support decoding audio files."));
+    }
+
+    // An offline context decodes without needing a user gesture or an audio output
+    const context = new OfflineAudioContextClass(1, 1, DECODE_SAMPLE_RATE);
+    return new Promise((resolve, reject) => {
+        // Safari only supports the callback form. Newer browsers also return a promise, whose rejection
+        // is already reported through the callback
+        const decoding = context.decodeAudioData(
+            data,
+            buffer => resolve({
+                sampleRate: buffer.sampleRate,
+                channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+            }),
+            error => reject(new AudioFormatError(`Audio file could not be decoded: ${error?.message || 'unknown format'}`))
+        );
+        decoding?.catch(() => {});
+    });
+};
+
+/**
+ * Decodes WAV files directly and anything else the browser supports (MP3, AAC, Ogg, ...) with
+ * decodeAudioData
+ */
+export const decodeAudioFile = async (data: ArrayBuffer): Promise<DecodedAudio> => {
+    if (isWav(data)) {
+        try {
+            return parseWav(data);
+        } catch (error: unknown) {
+            // Compressed WAV encodings such as ADPCM may still be supported by the browser
+            if (!(error instanceof AudioFormatError)) throw error;
+        }
+    }
+    return decodeWithWebAudio(data);
+};
+
+/**
+ * Transcribes PCM that is already at the session sample rate, sending it in bufferSize chunks at
+ * options.speed times real time and reporting progress after each chunk. Silence is sent too unless
+ * options.skipSilence is set, so that result times match the position in the file
+ */
+export const transcribePCM = (
+    pcmData: Int16Array,
+    channelCount: number,
+    options: TranscribeFileOptions
+): Promise<TranscribeAudioResult> => {
+    const sampleRate = options.sampleRate || SAMPLE_RATE;
+    const chunkSize = (options.bufferSize || BUFFER_SIZE) * channelCount;
+    const duration = pcmData.length / channelCount / sampleRate;
+    const onProgress = options.onProgress || (() => {});
+
+    async function* audio(): AsyncGenerator<Int16Array> {
+        for (let offset = 0; offset < pcmData.length; offset += chunkSize) {
+            const chunk = pcmData.subarray(offset, offset + chunkSize);
+            // Resumes once transcribeAudio has sent the chunk, and waited for it when pacing
+            yield chunk;
+
+            const position = Math.min(offset + chunkSize, pcmData.length) / channelCount / sampleRate;
+            onProgress({ position, duration, progress: duration > 0 ? position / duration : 1 });
+        }
+    }
+
+    return transcribeAudio(audio(), {
+        ...options,
+        sampleRate,
+        channelCount,
+        speed: options.speed ?? FILE_SPEED,
+        skipSilence: options.skipSilence ?? false
+    });
+};
+
+/**
+ * Resamples decoded audio to the session sample rate and transcribes it
+ */
+export const transcribeDecodedAudio = async (
+    decoded: DecodedAudio,
+    options: TranscribeFileOptions
+): Promise<TranscribeAudioResult> => {
+    if (options.channelIdentification && decoded.channels.length !== 2) {
+        throw new AudioFormatError(`Channel identification needs a stereo file, got ${decoded.channels.length} channels`);
+    }
+
+    const sampleRate = options.sampleRate || SAMPLE_RATE;
+    const channels = options.channelIdentification ? decoded.channels : [mixDown(decoded.channels)];
+    const resampled = channels.map(samples => new Resampler(decoded.sampleRate, sampleRate).process(samples));
+
+    return transcribePCM(toInterleavedPCM(resampled), resampled.length, { ...options, sampleRate });
+};
+
+/**
+ * Transcribes a recording such as an uploaded voicemail. WAV is decoded directly, other formats with
+ * the browser's decoders. The audio is sent at options.speed times real time (0 sends it as fast as
+ * possible) and the promise resolves with the final transcript
+ */
+export const transcribeAudioFile = async (
+    file: Blob | ArrayBuffer,
+    options: TranscribeFileOptions
+): Promise<TranscribeAudioResult> => {
+    const data = file instanceof Blob ? await readBlob(file) : file;
+    return transcribeDecodedAudio(await decodeAudioFile(data), options);
+};
@@ -0,0 +1,159 @@
+import { createMicrophoneError } from './errors';
+
+export interface AudioSource {
+    /**
+     * Creates the node feeding the capture graph. Called on every start() and when switching sources
+     */
+    connect(audioContext: AudioContext): Promise<AudioNode>;
+
+    /**
+     * Releases whatever connect() acquired. Called on stop() and when switching to another source
+     */
+    disconnect(): void;
+}
+
+export interface MicrophoneAudioSourceOptions {
+    // From listInputDevices(). The default input is used when omitted
+    deviceId?: string;
+    // Merged over the default constraints (mono, 16 bit)
+    constraints?: MediaTrackConstraints;
+}
+
+interface CapturableMediaElement extends HTMLMediaElement {
+    captureStream?: () => MediaStream;
+    mozCaptureStream?: () => MediaStream;
+}
+
+/**
+ * Records from a microphone with getUserMedia. This is the default source
+ */
+export class MicrophoneAudioSource implements AudioSource {
+    readonly deviceId: string | undefined;
+    private readonly constraints: MediaTrackConstraints;
+    private stream: MediaStream | null;
+    private node: MediaStreamAudioSourceNode | null;
+    // Bumped by every connect(), so a connection overtaken by a later one doesn't keep its stream
+    private connection: number;
+
+    constructor(options: MicrophoneAudioSourceOptions = {}) {
+        this.deviceId = options.deviceId;
+        this.constraints = options.constraints || {};
+        this.stream = null;
+        this.node = null;
+        this.connection = 0;
+    }
+
+    /**
+     * Opens the microphone. Only the latest connection keeps its stream: one that is still waiting for
+     * permission when connect() is called again stops its stream as soon as it gets it
+     */
+    async connect(audioContext: AudioContext): Promise<AudioNode> {
+        const connection = ++this.connection;
+        let stream: MediaStream;
+        // Browsers routinely ignore a requested sample rate, so none is asked for
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({
+                audio: {
+                    channelCount: 1,
+                    sampleSize: 16,
+                    ...this.constraints,
+                    ...(this.deviceId && { deviceId: { exact: this.deviceId } })
+                }
+            });
+        } catch (error: unknown) {
+            throw createMicrophoneError(error);
+        }
+
+        if (connection !== this.connection) {
+            stream.getTracks().forEach(track => track.stop());
+            return audioContext.createMediaStreamSource(stream);
+        }
+
+        // Release the stream of an earlier connection that finished first
+        this.disconnect();
+        this.stream = stream;
+        this.node = audioContext.createMediaStreamSource(stream);
+        return this.node;
+    }
+
+    disconnect(): void {
+        this.node?.disconnect();
+        this.node = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+    }
+}
+
+/**
+ * Transcribes an existing MediaStream, e.g. the remote side of a WebRTC call or getDisplayMedia()
+ * screen-share audio. The stream's tracks belong to the caller and are left running
+ */
+export class MediaStreamAudioSource implements AudioSource {
+    readonly stream: MediaStream;
+    private node: MediaStreamAudioSourceNode | null;
+
+    constructor(stream: MediaStream) {
+        this.stream = stream;
+        this.node = null;
+    }
+
+    async connect(audioContext: AudioContext): Promise<AudioNode> {
+        this.node = audioContext.createMediaStreamSource(this.stream);
+        return this.node;
+    }
+
+    disconnect(): void {
+        this.node?.disconnect();
+        this.node = null;
+    }
+}
+
+/**
+ * Transcribes what an <audio> or <video> element plays. The element has to be playing (or at least
+ * have its media loaded) when the client starts
+ */
+export class MediaElementAudioSource implements AudioSource {
+    readonly element: HTMLMediaElement;
+    private node: AudioNode | null;
+
+    constructor(element: HTMLMediaElement) {
+        this.element = element;
+        this.node = null;
+    }
+
+    async connect(audioContext: AudioContext): Promise<AudioNode> {
+        const element = this.element as CapturableMediaElement;
+        const captureStream = element.captureStream || element.mozCaptureStream;
+
+        if (captureStream) {
+            // Taps the element's output without changing its playback
+            this.node = audioContext.createMediaStreamSource(captureStream.call(element));
+        } else {
+            // Safari can't capture elements as streams. Routing the element through the context takes
+            // it off the speakers, so it is connected to them again. An element can only be routed
+            // like this once, so Safari supports one session per element
+            const node = audioContext.createMediaElementSource(element);
+            node.connect(audioContext.destination);
+            this.node = node;
+        }
+        return this.node;
+    }
+
+    disconnect(): void {
+        this.node?.disconnect();
+        this.node = null;
+    }
+}
+
+/**
+ * Lists the audio inputs that can be passed to MicrophoneAudioSource. Browsers only reveal labels
+ * once microphone permission has been granted
+ */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+        return [];
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+};
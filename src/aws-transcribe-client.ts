@@ -1,59 +1,138 @@
+import { LanguageCode } from "@aws-sdk/client-transcribe-streaming";
+import { RMSVoiceActivityDetector, VoiceActivityDetector } from './voice-activity-detector';
+import { VoiceActivityGate } from './voice-activity-gate';
+import { AudioSource, MediaStreamAudioSource, MicrophoneAudioSource } from './audio-source';
+import { Resampler } from './resampler';
+import { BrowserNotSupportedError, TabCoordinationError, TranscribeError, toTranscribeError } from './errors';
+import { TranscriptSegment } from './transcript-segment';
 import {
-    TranscribeStreamingClient,
-    StartStreamTranscriptionCommand,
-    LanguageCode,
-    MediaEncoding,
-    PartialResultsStability
-} from "@aws-sdk/client-transcribe-streaming";
+    TranscribeSession,
+    TranscribeCredentialsProvider,
+    TranscriptData,
+    TranscribeVocabularyOptions,
+    TranscribeLanguageIdentificationOptions,
+    TranscribePartialResultsOptions,
+    TranscribeMedicalOptions,
+    TranscribeContentIdentificationOptions,
+    LanguageDetectedEvent,
+    QuotaWarningEvent,
+    ReconnectPolicy,
+    RolloverPolicy,
+    ReconnectingEvent,
+    VAD_THRESHOLD,
+    BUFFER_SIZE,
+    SAMPLE_RATE,
+    PRE_ROLL_DURATION,
+    HANGOVER_DURATION,
+    generateUUID
+} from './transcribe-session';
+import { CredentialStore, MemoryCredentialStore } from './credential-store';
+import { UsageMeter } from './usage-meter';
+import { SharedTranscriptData, TabCoordinator } from './tab-coordinator';
+import { CAPTURE_PROCESSOR_NAME, CaptureMessage, CaptureProcessorOptions, loadCaptureWorklet } from './capture-worklet';
+
+export type {
+    TranscribeCredentials,
+    TranscribeCredentialsProvider,
+    Logger,
+    TranscriptData,
+    TranscribeVocabularyOptions,
+    TranscribeLanguageIdentificationOptions,
+    TranscribePartialResultsOptions,
+    TranscribeMedicalOptions,
+    TranscribeContentIdentificationOptions,
+    LanguageDetectedEvent,
+    QuotaWarningEvent,
+    ReconnectPolicy,
+    RolloverPolicy,
+    ReconnectingEvent
+} from './transcribe-session';
 
 // Define interfaces
-export interface TranscribeCredentials {
-    accessKeyId: string;
-    secretAccessKey: string;
-    sessionToken: string;
-    expiration: Date;
-    reservedMinutes?: number;
-}
-
-export type TranscribeCredentialsProvider = (minutesUsed: number) => Promise<TranscribeCredentials> | null;
-
-export type Logger = (message: string, ...args: unknown[]) => void;
+export type CaptureMode = 'audio-worklet' | 'script-processor';
 
 export type BrowserSupported = {
     browserSupported: boolean;
     AudioContextClass?: typeof AudioContext;
-}
-
-export interface TranscriptData {
-    transcript: string;
-    interimTranscript: string;
-    resetTranscript: () => void;
+    captureMode?: CaptureMode;
 }
 
 export interface TranscribeState {
     isListening: boolean;
     isActivelySpeaking: boolean;
+    isReconnecting?: boolean;
+    isPaused?: boolean;
+    // Mirroring the transcript of another tab, see followActiveTab
+    isFollowing?: boolean;
     silenceCountdown?: number | null;
     browserSupported?: boolean;
 }
 
-export interface TranscribeOptions {
+export interface TranscribeOptions extends
+    TranscribeVocabularyOptions,
+    TranscribeLanguageIdentificationOptions,
+    TranscribePartialResultsOptions,
+    TranscribeContentIdentificationOptions {
     region?: string;
     languageCode?: LanguageCode | string;
     sampleRate?: number;
     vadThreshold?: number;
+    voiceActivityDetector?: VoiceActivityDetector;
     silenceDuration?: number;
     maxSilenceDuration?: number;
+    preRollDuration?: number;
+    hangoverDuration?: number;
     bufferSize?: number;
+    audioSource?: AudioSource;
+    showSpeakerLabel?: boolean;
+    // Transcribes with Transcribe Medical instead. See TranscribeMedicalOptions
+    medical?: TranscribeMedicalOptions;
+    remoteStream?: MediaStream;
     debug?: boolean;
     credentialsProvider: TranscribeCredentialsProvider;
+    // Where credentials are kept between sessions. Defaults to memory only, see CredentialStore
+    credentialStore?: CredentialStore;
+    // Keeps the credentials of different users or tenants apart, e.g. a user id
+    credentialsKey?: string;
+    // Counts the audio sent, see UsageMeter. Defaults to a meter keyed by credentialsKey
+    usageMeter?: UsageMeter;
+    // How many of the reserved minutes may remain when onQuotaWarning is called. Defaults to 1
+    quotaWarningMinutes?: number;
+    // Lets only one tab per user transcribe at a time, see TabCoordinator
+    tabCoordinator?: TabCoordinator;
+    // When another tab is active, start() follows it instead of failing: its transcript is passed to
+    // onTranscript, and this tab carries on the transcription if the active tab is closed
+    followActiveTab?: boolean;
     generateSessionId?: () => string;
+    reconnect?: ReconnectPolicy;
+    rollover?: RolloverPolicy;
     onTranscript?: (data: TranscriptData) => void;
+    onResult?: (segment: TranscriptSegment) => void;
+    onLanguageDetected?: (event: LanguageDetectedEvent) => void;
+    onQuotaWarning?: (event: QuotaWarningEvent) => void;
     onSpeechStart?: () => void;
     onSpeechEnd?: () => void;
-    onError?: (error: string) => void;
+    onError?: (error: TranscribeError) => void;
     onStateChange?: (state: TranscribeState) => void;
+    onReconnecting?: (event: ReconnectingEvent) => void;
+    onReconnected?: (attempt: number) => void;
 }
+type TranscribeConfig = Required<Omit<
+    TranscribeOptions,
+    | keyof TranscribeVocabularyOptions
+    | keyof TranscribeLanguageIdentificationOptions
+    | keyof TranscribePartialResultsOptions
+    | keyof TranscribeContentIdentificationOptions
+    | 'medical'
+    | 'usageMeter'
+    | 'quotaWarningMinutes'
+    | 'tabCoordinator'
+    | 'remoteStream'
+    | 'reconnect'
+    | 'rollover'
+>> & {
+    remoteStream: MediaStream | null;
+};
 
 // Type definitions for Web Audio API and transcription results
 interface AudioProcessingEvent {
@@ -61,191 +140,42 @@ interface AudioProcessingEvent {
         getChannelData(channel: number): Float32Array;
     };
 }
-
-interface TranscriptionResult {
-    TranscriptEvent?: {
-        Transcript?: {
-            Results?: Array<{
-                IsPartial?: boolean;
-                Alternatives?: Array<{
-                    Transcript?: string;
-                }>;
-            }>;
-        };
-    };
-}
-
 interface WebkitWindow extends Window {
     webkitAudioContext: typeof AudioContext;
+    AudioWorkletNode?: typeof AudioWorkletNode;
 }
 
-// Constants for voice activity detection and silence handling
-const VAD_THRESHOLD = 0.02; // Adjust this threshold based on testing
+// Constants for silence handling
 const SILENCE_DURATION = 1000; // Duration of silence before stopping transmission (ms)
 const MAX_SILENCE_DURATION = 60000; // Maximum allowed silence duration (60 seconds)
-const BUFFER_SIZE = 4096; // Buffer size for audio processing
-
-// Storage keys
-const STORAGE_KEY = 'aws_transcribe_credentials';
-const MINUTES_USED_KEY = 'aws_transcribe_minutes_used';
-
-// Custom ReadableStream that works in Safari
-class ReadableStream {
-    private listeners: Array<{ resolve: (value: { value: unknown; done: boolean }) => void }>;
-    private buffer: Array<unknown>;
-    private closed: boolean;
-
-    constructor() {
-        this.listeners = [];
-        this.buffer = [];
-        this.closed = false;
-    }
-
-    enqueue(chunk: unknown): void {
-        if (this.closed) return;
-
-        if (this.listeners.length > 0) {
-            // If there are listeners waiting, resolve them immediately
-            const listener = this.listeners.shift()!;
-            listener.resolve({ value: chunk, done: false });
-        } else {
-            // Otherwise, add to buffer
-            this.buffer.push(chunk);
-        }
-    }
-
-    close(): void {
-        this.closed = true;
-
-        // Resolve any pending requests with done
-        this.listeners.forEach(listener => {
-            listener.resolve({ value: undefined, done: true });
-        });
-        this.listeners = [];
-    }
-
-    [Symbol.asyncIterator]() {
-        return {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            next: (): Promise<{ value: any; done: boolean }> => {
-                if (this.closed && this.buffer.length === 0) {
-                    return Promise.resolve({ value: undefined, done: true });
-                }
-
-                if (this.buffer.length > 0) {
-                    const chunk = this.buffer.shift();
-                    return Promise.resolve({ value: chunk, done: false });
-                }
-
-                // No data available, create a promise that will be resolved when data arrives
-                return new Promise(resolve => {
-                    this.listeners.push({ resolve });
-                });
-            }
-        };
-    }
-}
-
-class AWSCredentials {
-    private readonly log: Logger;
-    private readonly credentialsProvider: TranscribeCredentialsProvider;
-
-    constructor(credentialsProvider: TranscribeCredentialsProvider, log: Logger) {
-        this.log = log;
-        this.credentialsProvider = credentialsProvider;
-    }
-
-    async getCredentials(): Promise<TranscribeCredentials> {
-        if (!this.credentialsProvider) {
-            throw new Error('No credentials provider available');
-        }
-
-        const existingCreds = this.loadStoredCredentials();
-        if (existingCreds && existingCreds.expiration.getTime() > Date.now()) {
-            this.log('Using existing credentials');
-            return existingCreds;
-        }
-
-        const credentials = await this.credentialsProvider(getMinutesUsed());
-        if (!credentials) {
-            throw new Error('No credentials available');
-        }
-
-        this.storeCredentials(credentials);
-        return credentials;
-    }
-
-
-    private loadStoredCredentials = (): TranscribeCredentials | null => {
-        if (typeof localStorage === 'undefined') { return null; }
-
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (!stored) return null;
-
-        try {
-            const parsed = JSON.parse(stored);
-            return {
-                ...parsed,
-                expiration: new Date(parsed.expiration)
-            };
-        } catch (e) {
-            this.log('Failed to parse stored credentials:', e);
-            localStorage.removeItem(STORAGE_KEY);
-            throw e;
-        }
-    };
-
-    private storeCredentials = (creds: TranscribeCredentials | null): void => {
-        if (typeof localStorage === 'undefined') { return; }
-        if (!creds) {
-            localStorage.removeItem(STORAGE_KEY);
-            return;
-        }
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(creds));
-    };
-}
-
-const getMinutesUsed = (): number => {
-    if (typeof localStorage === 'undefined') return 0;
-
-    const stored = localStorage.getItem(MINUTES_USED_KEY);
-    return stored ? parseFloat(stored) : 0;
-};
-
-const storeMinutesUsed = (minutes: number): void => {
-    if (typeof localStorage === 'undefined') return;
-
-    localStorage.setItem(MINUTES_USED_KEY, minutes.toString());
-};
-
-const generateUUID = (): string => {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-        const r = Math.random() * 16 | 0;
-        const v = c === 'x' ? r : (r & 0x3 | 0x8);
-        return v.toString(16);
-    });
-};
 
 export class AWSTranscribeClient {
-    private config: Required<TranscribeOptions>;
+    private config: TranscribeConfig;
     private isListening: boolean;
     private isActivelySpeaking: boolean;
+    private isReconnecting: boolean;
+    private isPaused: boolean;
+    private isFollowing: boolean;
     private silenceCountdown: number | null;
     private browserSupported: boolean;
     private audioContext: AudioContext | null;
     private maxSilenceTimeout: number | null;
     private countdownInterval: number | null;
-    private sourceNode: MediaStreamAudioSourceNode | null;
-    private processorNode: ScriptProcessorNode | null;
-    private transcribeClient: TranscribeStreamingClient | null;
-    private transcript: string;
-    private stream: MediaStream | null;
-    private startTime: number | null;
+    private audioSource: AudioSource;
+    private remoteSource: AudioSource | null;
+    private sourceNode: AudioNode | null;
+    private channelMerger: ChannelMergerNode | null;
+    private readonly channelCount: number;
+    private processorNode: ScriptProcessorNode | AudioWorkletNode | null;
+    private captureMode: CaptureMode;
+    private resamplers: Resampler[];
+    private session: TranscribeSession;
+    private tabCoordinator: TabCoordinator | null;
+    // The transcript last mirrored from the active tab, which this tab's own transcript continues
+    private followedTranscript: SharedTranscriptData | null;
+    private gate: VoiceActivityGate;
     private silenceTimeout: number | null;
     private activeStreaming: boolean;
-    private customStream: ReadableStream | null;
-    private transcribeStream: unknown;
-    private awsCredentials: AWSCredentials;
     private readonly AudioContextClass: {
         prototype: AudioContext;
         new(contextOptions?: AudioContextOptions): AudioContext
@@ -256,48 +186,117 @@ export class AWSTranscribeClient {
         this.config = {
             region: options.region || "us-east-1",
             languageCode: options.languageCode || LanguageCode.EN_US,
-            sampleRate: options.sampleRate || 44100,
+            sampleRate: options.sampleRate || SAMPLE_RATE,
             vadThreshold: options.vadThreshold || VAD_THRESHOLD,
+            voiceActivityDetector: options.voiceActivityDetector
+                || new RMSVoiceActivityDetector(options.vadThreshold || VAD_THRESHOLD),
             silenceDuration: options.silenceDuration || SILENCE_DURATION,
             maxSilenceDuration: options.maxSilenceDuration || MAX_SILENCE_DURATION,
+            preRollDuration: options.preRollDuration ?? PRE_ROLL_DURATION,
+            hangoverDuration: options.hangoverDuration ?? HANGOVER_DURATION,
             bufferSize: options.bufferSize || BUFFER_SIZE,
+            audioSource: options.audioSource || new MicrophoneAudioSource(),
+            showSpeakerLabel: options.showSpeakerLabel ?? false,
+            remoteStream: options.remoteStream || null,
             debug: options.debug || false,
             credentialsProvider: options.credentialsProvider,
+            credentialStore: options.credentialStore || new MemoryCredentialStore(),
+            credentialsKey: options.credentialsKey || '',
+            followActiveTab: options.followActiveTab ?? false,
             onTranscript: options.onTranscript || (() => {}),
+            onResult: options.onResult || (() => {}),
+            onLanguageDetected: options.onLanguageDetected || (() => {}),
+            onQuotaWarning: options.onQuotaWarning || (() => {}),
             onSpeechStart: options.onSpeechStart || (() => {}),
             onSpeechEnd: options.onSpeechEnd || (() => {}),
             onError: options.onError || (() => {}),
             onStateChange: options.onStateChange || (() => {}),
+            onReconnecting: options.onReconnecting || (() => {}),
+            onReconnected: options.onReconnected || (() => {}),
             generateSessionId: options.generateSessionId || generateUUID
         };
 
-        this.awsCredentials = new AWSCredentials(this.config.credentialsProvider, this._log.bind(this));
-
         // Internal state
         this.isListening = false;
         this.isActivelySpeaking = false;
+        this.isReconnecting = false;
+        this.isPaused = false;
+        this.isFollowing = false;
         this.silenceCountdown = null;
 
         // Refs to maintain state between functions
         this.audioContext = null;
         this.maxSilenceTimeout = null;
         this.countdownInterval = null;
+        this.audioSource = this.config.audioSource;
+        this.remoteSource = this.config.remoteStream ? new MediaStreamAudioSource(this.config.remoteStream) : null;
         this.sourceNode = null;
+        this.channelMerger = null;
+        // The microphone is channel 0 (ch_0), the remote stream channel 1 (ch_1)
+        this.channelCount = this.config.remoteStream ? 2 : 1;
         this.processorNode = null;
-        this.transcribeClient = null;
-        this.transcript = '';
-        this.stream = null;
-        this.startTime = null;
+        this.resamplers = [];
         this.silenceTimeout = null;
         this.activeStreaming = false;
-        this.customStream = null;
-        this.transcribeStream = null;
+        this.tabCoordinator = options.tabCoordinator || null;
+        this.followedTranscript = null;
 
+        // Streaming to Transcribe and assembling the transcript is shared with the Node entry point
+        this.session = new TranscribeSession({
+            region: this.config.region,
+            languageCode: this.config.languageCode,
+            sampleRate: this.config.sampleRate,
+            channelCount: this.channelCount,
+            showSpeakerLabel: this.config.showSpeakerLabel,
+            medical: options.medical,
+            credentialsProvider: this.config.credentialsProvider,
+            credentialStore: this.config.credentialStore,
+            credentialsKey: this.config.credentialsKey,
+            usageMeter: options.usageMeter,
+            quotaWarningMinutes: options.quotaWarningMinutes,
+            generateSessionId: this.config.generateSessionId,
+            vocabularyName: options.vocabularyName,
+            vocabularyFilterName: options.vocabularyFilterName,
+            vocabularyFilterMethod: options.vocabularyFilterMethod,
+            languageModelName: options.languageModelName,
+            identifyLanguage: options.identifyLanguage,
+            identifyMultipleLanguages: options.identifyMultipleLanguages,
+            languageOptions: options.languageOptions,
+            preferredLanguage: options.preferredLanguage,
+            partialResults: options.partialResults,
+            enablePartialResultsStabilization: options.enablePartialResultsStabilization,
+            partialResultsStability: options.partialResultsStability,
+            maxInterimUpdatesPerSecond: options.maxInterimUpdatesPerSecond,
+            contentIdentificationType: options.contentIdentificationType,
+            contentRedactionType: options.contentRedactionType,
+            piiEntityTypes: options.piiEntityTypes,
+            reconnect: options.reconnect,
+            rollover: options.rollover,
+            log: this._log.bind(this),
+            onTranscript: data => this._handleTranscript(data),
+            onResult: this.config.onResult,
+            onLanguageDetected: this.config.onLanguageDetected,
+            onQuotaWarning: this.config.onQuotaWarning,
+            onError: error => {
+                this.config.onError(error);
+                this.stop();
+            },
+            onReconnecting: event => this._handleReconnecting(event),
+            onReconnected: attempt => this._handleReconnected(attempt)
+        });
+        this.gate = new VoiceActivityGate({
+            sampleRate: this.config.sampleRate,
+            channelCount: this.channelCount,
+            preRollDuration: this.config.preRollDuration,
+            hangoverDuration: this.config.hangoverDuration,
+            send: pcmData => this.session.send(pcmData)
+        });
 
         // Check for browser compatibility
         const compatibility = this._checkBrowserCompatibility();
         this.browserSupported = compatibility.browserSupported;
         this.AudioContextClass = compatibility.AudioContextClass;
+        this.captureMode = compatibility.captureMode || 'script-processor';
     }
 
     /**
@@ -325,32 +324,78 @@ export class AWSTranscribeClient {
         if (!AudioContextClass) {
             return {browserSupported: false};
         }
-        return {browserSupported: true, AudioContextClass};
+
+        // ScriptProcessorNode is deprecated and runs on the main thread, so only use it when
+        // AudioWorklet is missing (older Safari, insecure contexts)
+        const workletSupported = typeof (window as unknown as WebkitWindow).AudioWorkletNode === 'function'
+            && 'audioWorklet' in AudioContextClass.prototype;
+        const captureMode: CaptureMode = workletSupported ? 'audio-worklet' : 'script-processor';
+
+        return {browserSupported: true, AudioContextClass, captureMode};
     }
 
     public isBrowserSupported(): boolean {
         return this.browserSupported;
     }
 
-    private _handleTranscription(transcript: string, interimTranscript: string, resetTranscript: () => void): void {
-        this.config.onTranscript({ transcript, interimTranscript, resetTranscript });
+    // Create the node that delivers captured buffers, preferring an AudioWorklet off the main thread
+    private async _createProcessorNode(audioContext: AudioContext): Promise<ScriptProcessorNode | AudioWorkletNode> {
+        if (this.captureMode === 'audio-worklet') {
+            try {
+                await loadCaptureWorklet(audioContext);
+
+                // The built-in RMS check can run inside the worklet, custom detectors need the samples
+                const detector = this.config.voiceActivityDetector;
+                const processorOptions: CaptureProcessorOptions = {
+                    bufferSize: this.config.bufferSize,
+                    channelCount: this.channelCount,
+                    vadThreshold: detector instanceof RMSVoiceActivityDetector ? detector.threshold : null,
+                    resampler: this.resamplers[0].getFilter()
+                };
+
+                return new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+                    numberOfInputs: 1,
+                    numberOfOutputs: 1,
+                    outputChannelCount: [1],
+                    // Keep the channels apart instead of letting the graph downmix them
+                    channelCount: this.channelCount,
+                    channelCountMode: 'explicit',
+                    channelInterpretation: 'discrete',
+                    processorOptions
+                });
+            } catch (error) {
+                this._log('Failed to load AudioWorklet, falling back to ScriptProcessorNode:', error);
+                this.captureMode = 'script-processor';
+            }
+        }
+
+        return audioContext.createScriptProcessor(this.config.bufferSize, this.channelCount, 1);
     }
 
-    private async _createTranscribeClient(): Promise<TranscribeStreamingClient> {
-        const credentials = await this.awsCredentials.getCredentials();
-        return new TranscribeStreamingClient({
-            region: this.config.region,
-            credentials: {
-                accessKeyId: credentials.accessKeyId,
-                secretAccessKey: credentials.secretAccessKey,
-                sessionToken: credentials.sessionToken,
-            },
-        });
+    private _attachAudioHandler(processorNode: ScriptProcessorNode | AudioWorkletNode): void {
+        if (this.captureMode === 'audio-worklet') {
+            (processorNode as AudioWorkletNode).port.onmessage = (e: MessageEvent<CaptureMessage>) => {
+                const { pcm, hasVoice, samples } = e.data;
+                this._processAudioData(pcm, samples ? this._detectVoiceActivity(samples) : !!hasVoice);
+            };
+            return;
+        }
+
+        (processorNode as ScriptProcessorNode).onaudioprocess = (e: AudioProcessingEvent) => {
+            const channels = this.resamplers.map((resampler, channel) => {
+                return resampler.process(e.inputBuffer.getChannelData(channel));
+            });
+            if (channels.length === 1) {
+                this._processAudioData(this._convertToPCM(channels[0]), this._detectVoiceActivity(channels[0]));
+                return;
+            }
+            const hasVoice = this._detectVoiceActivity(this._mixChannels(channels));
+            this._processAudioData(this._interleaveToPCM(channels), hasVoice);
+        };
     }
 
     private _detectVoiceActivity(inputData: Float32Array): boolean {
-        const rms = Math.sqrt(inputData.reduce((acc, val) => acc + val * val, 0) / inputData.length);
-        return rms > this.config.vadThreshold;
+        return this.config.voiceActivityDetector.detect(inputData, this.config.sampleRate);
     }
 
     private _handleSilence(): void {
@@ -416,11 +461,26 @@ export class AWSTranscribeClient {
         }
     }
 
-    // Process audio data and send to Transcribe
-    private _processAudioData(inputData: Float32Array): void {
-        if (!this.customStream) return;
+    private _clearSilenceTimers(): void {
+        if (this.silenceTimeout) {
+            clearTimeout(this.silenceTimeout);
+            this.silenceTimeout = null;
+        }
+
+        if (this.maxSilenceTimeout) {
+            clearTimeout(this.maxSilenceTimeout);
+            this.maxSilenceTimeout = null;
+        }
+
+        if (this.countdownInterval) {
+            clearInterval(this.countdownInterval);
+            this.countdownInterval = null;
+        }
+        this.silenceCountdown = null;
+    }
 
-        // Convert float32 audio data to int16 PCM
+    // Convert float32 audio data to int16 PCM
+    private _convertToPCM(inputData: Float32Array): Int16Array {
         const pcmData = new Int16Array(inputData.length);
 
         for (let i = 0; i < inputData.length; i++) {
@@ -428,148 +488,254 @@ export class AWSTranscribeClient {
             pcmData[i] = Math.floor(sample * 32767);
         }
 
-        // Create a properly formatted AudioEvent
-        const audioEvent = {
-            AudioEvent: {
-                AudioChunk: new Uint8Array(pcmData.buffer)
+        return pcmData;
+    }
+
+    // Convert float32 channels to interleaved int16 PCM, the layout Transcribe expects for multiple channels
+    private _interleaveToPCM(channels: Float32Array[]): Int16Array {
+        const frames = channels[0].length;
+        const pcmData = new Int16Array(frames * channels.length);
+
+        for (let i = 0; i < frames; i++) {
+            for (let channel = 0; channel < channels.length; channel++) {
+                const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+                pcmData[i * channels.length + channel] = Math.floor(sample * 32767);
             }
-        };
+        }
 
-        // Send to our custom stream
-        this.customStream.enqueue(audioEvent);
+        return pcmData;
     }
 
-    // Handle transcription results processing
-    private async _processTranscriptionResults(stream: unknown): Promise<void> {
-        try {
-            // Use appropriate type assertion to handle the stream
-            const typedStream = stream as { TranscriptResultStream: AsyncIterable<TranscriptionResult> };
-
-            for await (const event of typedStream.TranscriptResultStream) {
-                if (event.TranscriptEvent?.Transcript) {
-                    const results = event.TranscriptEvent.Transcript.Results;
-                    if (results && results.length > 0) {
-                        const result = results[0];
-                        this._log('Processing result:', {
-                            isPartial: result.IsPartial,
-                            transcript: result.Alternatives?.[0]?.Transcript || ''
-                        });
-                        if (result.IsPartial) {
-                            this._handleTranscription(
-                                this.transcript,
-                                result.Alternatives?.[0]?.Transcript || '',
-                                () => { this.transcript = ''; }
-                            );
-                        } else {
-                            this.transcript += (result.Alternatives?.[0]?.Transcript || '') + ' ';
-                            this._handleTranscription(
-                                this.transcript,
-                                '',
-                                () => { this.transcript = ''; }
-                            );
-                        }
-                    }
-                }
+    // Voice activity is detected on the mono mix, so speech on either channel opens the gate
+    private _mixChannels(channels: Float32Array[]): Float32Array {
+        const mix = new Float32Array(channels[0].length);
+
+        for (let i = 0; i < mix.length; i++) {
+            let sum = 0;
+            for (let channel = 0; channel < channels.length; channel++) {
+                sum += channels[channel][i];
             }
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            this._log('Error processing transcription results:', error);
-            if (!(error instanceof Error && error.name === 'AbortError')) {
-                this.config.onError('Transcription error: ' + (errorMessage || 'Unknown error'));
+            mix[i] = sum / channels.length;
+        }
+
+        return mix;
+    }
+
+    // Update speech state for a captured buffer and only send it to Transcribe while the VAD gate is open
+    private _processAudioData(pcmData: Int16Array, hasVoice: boolean): void {
+        const now = Date.now();
+
+        if (this.isPaused) {
+            // Nothing captured while paused is sent, but the gate's keep-alive silence holds the stream open
+            this.gate.process(new Int16Array(pcmData.length), false, now);
+            return;
+        }
+
+        if (hasVoice && !this.activeStreaming) {
+            this._log('Voice detected, starting stream');
+            this.activeStreaming = true;
+            this.isActivelySpeaking = true;
+            this._resetSilenceTimeout();
+            this.config.onSpeechStart();
+            this.config.onStateChange({
+                isListening: this.isListening,
+                isActivelySpeaking: true
+            });
+        } else if (hasVoice) {
+            this._resetSilenceTimeout();
+        }
+
+        this.gate.process(pcmData, hasVoice, now);
+    }
+
+    // Called before every reconnect attempt; the state changes once per reconnect
+    private _handleReconnecting(event: ReconnectingEvent): void {
+        if (!this.isReconnecting) {
+            this.isReconnecting = true;
+            this.config.onStateChange({
+                isListening: this.isListening,
+                isActivelySpeaking: this.isActivelySpeaking,
+                isReconnecting: true
+            });
+        }
+        this.config.onReconnecting(event);
+    }
+
+    private _handleReconnected(attempt: number): void {
+        this.isReconnecting = false;
+        this.config.onReconnected(attempt);
+        this.config.onStateChange({
+            isListening: this.isListening,
+            isActivelySpeaking: this.isActivelySpeaking,
+            isReconnecting: false
+        });
+    }
+
+    // A tab that took over from the active tab continues the transcript it was following
+    private _handleTranscript(data: TranscriptData): void {
+        const followed = this.followedTranscript;
+        const shared: SharedTranscriptData = followed ? {
+            transcript: [followed.transcript, data.transcript].filter(Boolean).join(' '),
+            interimTranscript: data.interimTranscript,
+            turns: [...followed.turns, ...data.turns]
+        } : data;
+
+        this.tabCoordinator?.publish(shared);
+        this.config.onTranscript({
+            ...shared,
+            resetTranscript: () => {
+                this.followedTranscript = null;
+                data.resetTranscript();
+            }
+        });
+    }
+
+    // A page put into the back/forward cache stays alive but gave up the active role, so its session
+    // ends here and a following tab carries on. A page being unloaded ends it anyway
+    private _handlePageHide = (event: PageTransitionEvent): void => {
+        if (!event.persisted) return;
+
+        this._log('The page was put into the back/forward cache, stopping');
+        this.tabCoordinator?.release(true);
+        this.stop();
+    };
+
+    private _follow(coordinator: TabCoordinator): void {
+        this._log('Another tab is active, following it');
+        this.isFollowing = true;
+        coordinator.follow({
+            onTranscript: data => {
+                this.followedTranscript = data;
+                this.config.onTranscript({ ...data, resetTranscript: () => { this.followedTranscript = null; } });
+            },
+            onHandover: () => {
+                this._log('Taking over from the active tab');
+                this.isFollowing = false;
+                this.start().catch(error => this._log('Error taking over from the active tab:', error));
+            },
+            onActiveTabStopped: () => {
+                this._log('The active tab stopped, no longer following it');
+                this.isFollowing = false;
+                this.followedTranscript = null;
+                this.config.onStateChange({ isListening: false, isActivelySpeaking: false, isFollowing: false });
             }
+        });
+        this.config.onStateChange({ isListening: false, isActivelySpeaking: false, isFollowing: true });
+    }
+
+    // The primary source feeds channel 0, through the merger when a remote stream fills channel 1
+    private _connectSourceNode(node: AudioNode): void {
+        if (this.channelMerger) {
+            node.connect(this.channelMerger, 0, 0);
+        } else if (this.processorNode) {
+            node.connect(this.processorNode);
         }
     }
 
+    /**
+     * Switches to another audio source, e.g. a different microphone. While listening the capture graph
+     * is rewired in place, so the Transcribe stream and the transcript carry on
+     */
+    public async setAudioSource(audioSource: AudioSource): Promise<void> {
+        // Reconnecting the active source and then disconnecting it as the previous one would end capture
+        if (audioSource === this.audioSource) return;
+
+        const previous = this.audioSource;
+        const previousNode = this.sourceNode;
+        const audioContext = this.audioContext;
+        this.audioSource = audioSource;
+        if (!audioContext || !previousNode) return;
+
+        let node: AudioNode;
+        try {
+            node = await audioSource.connect(audioContext);
+        } catch (error: unknown) {
+            // Keep capturing from the previous source
+            this.audioSource = previous;
+            throw toTranscribeError(error);
+        }
+
+        if (this.audioContext !== audioContext || this.sourceNode !== previousNode) {
+            // Stopped while the new source was opening. A session started since then opened its own node
+            if (!this.audioContext) audioSource.disconnect();
+            return;
+        }
+
+        this._log('Switching audio source');
+        this._connectSourceNode(node);
+        this.sourceNode = node;
+        previous.disconnect();
+    }
+
     public async start(): Promise<boolean> {
         if (this.isListening) {
             this._log('Already listening');
             return true;
         }
         if (!this.browserSupported) {
-            this.config.onError("Your browser doesn't support microphone access or Web Audio API.");
-            return false;
+            const error = new BrowserNotSupportedError("Your browser doesn't support microphone access or Web Audio API.");
+            this.config.onError(error);
+            throw error;
         }
         if(!this.AudioContextClass) {
-            this.config.onError("Your browser doesn't support AudioContext.");
-            return false;
+            const error = new BrowserNotSupportedError("Your browser doesn't support AudioContext.");
+            this.config.onError(error);
+            throw error;
+        }
+        if (this.tabCoordinator) {
+            if (!await this.tabCoordinator.acquire()) {
+                if (this.config.followActiveTab) {
+                    if (!this.isFollowing) this._follow(this.tabCoordinator);
+                    return false;
+                }
+                const error = new TabCoordinationError('Transcription is already running in another tab.');
+                this.config.onError(error);
+                throw error;
+            }
+            this.tabCoordinator.unfollow();
+            this.isFollowing = false;
+            if (typeof window !== 'undefined') {
+                window.addEventListener('pagehide', this._handlePageHide);
+            }
         }
 
         try {
             this._log('Starting speech recognition...');
 
-            // Get user media
-            this.stream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    channelCount: 1,
-                    sampleRate: this.config.sampleRate,
-                    sampleSize: 16
-                }
+            // Create audio context at the hardware rate and convert to the Transcribe rate ourselves
+            this.audioContext = new this.AudioContextClass();
+            this._log(`Resampling from ${this.audioContext.sampleRate} Hz to ${this.config.sampleRate} Hz`);
+            const inputRate = this.audioContext.sampleRate;
+            this.resamplers = Array.from({ length: this.channelCount }, () => {
+                return new Resampler(inputRate, this.config.sampleRate);
             });
 
-            // Create audio context
-            this.audioContext = new this.AudioContextClass({ sampleRate: this.config.sampleRate });
-
-            // Create audio source
-            this.sourceNode = this.audioContext.createMediaStreamSource(this.stream);
+            // Open the audio source, by default the microphone
+            this.sourceNode = await this.audioSource.connect(this.audioContext);
 
-            // Create script processor for audio processing
-            this.processorNode = this.audioContext.createScriptProcessor(this.config.bufferSize, 1, 1);
+            // Create the capture node for audio processing
+            this.processorNode = await this._createProcessorNode(this.audioContext);
+            this._log('Capturing audio with', this.captureMode);
 
-            // Connect nodes
-            this.sourceNode.connect(this.processorNode);
+            // Connect nodes. With a remote stream both sources are downmixed to mono and merged into
+            // separate channels of one input
+            if (this.remoteSource) {
+                this.channelMerger = this.audioContext.createChannelMerger(2);
+                const remoteNode = await this.remoteSource.connect(this.audioContext);
+                remoteNode.connect(this.channelMerger, 0, 1);
+                this.channelMerger.connect(this.processorNode);
+            }
+            this._connectSourceNode(this.sourceNode);
             this.processorNode.connect(this.audioContext.destination);
 
-            // Create AWS Transcribe client
-            this._log('Creating transcribe client...');
-            this.transcribeClient = await this._createTranscribeClient();
-
-            this.customStream = new ReadableStream();
+            this.gate.reset(Date.now());
+            this.config.voiceActivityDetector.reset?.();
 
             // Set up audio processing callback
-            this.processorNode.onaudioprocess = (e: AudioProcessingEvent) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-
-                const hasVoice = this._detectVoiceActivity(inputData);
-                if (hasVoice && !this.activeStreaming) {
-                    this._log('Voice detected, starting stream');
-                    this.activeStreaming = true;
-                    this.isActivelySpeaking = true;
-                    this._resetSilenceTimeout();
-                    this.config.onSpeechStart();
-                    this.config.onStateChange({
-                        isListening: this.isListening,
-                        isActivelySpeaking: true
-                    });
-                } else if (hasVoice) {
-                    this._resetSilenceTimeout();
-                }
-
-                if (this.customStream) {
-                    this._processAudioData(inputData);
-                }
-            };
-
-            // Start AWS Transcribe streaming
-            this._log('Creating transcribe command...');
-            const command = new StartStreamTranscriptionCommand({
-                LanguageCode: this.config.languageCode as LanguageCode,
-                MediaEncoding: MediaEncoding.PCM,
-                MediaSampleRateHertz: this.config.sampleRate,
-                AudioStream: this.customStream,
-                ShowSpeakerLabel: false,
-                EnablePartialResultsStabilization: true,
-                PartialResultsStability: PartialResultsStability.HIGH,
-                SessionId: this.config.generateSessionId()
-            });
-
-            this._log('Sending transcribe command...');
-            this.transcribeStream = await this.transcribeClient.send(command);
-            this._log('Transcribe stream started');
+            this._attachAudioHandler(this.processorNode);
 
-            // Start processing results NOTE: THIS SHOULD NOT BE AWAITED
-            this._processTranscriptionResults(this.transcribeStream);
+            await this.session.open();
 
-            this.startTime = Date.now();
             this.isListening = true;
 
             this.config.onStateChange({
@@ -579,52 +745,82 @@ export class AWSTranscribeClient {
 
             return true;
         } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
             this._log('Error starting transcription:', error);
-            this.config.onError(errorMessage || "Failed to start transcription");
+            const transcribeError = toTranscribeError(error);
+            this.config.onError(transcribeError);
             this.isListening = false;
-            this.startTime = null;
             this.stop();
-            throw error;
+            throw transcribeError;
         }
     }
 
+    /**
+     * Stops sending audio without closing anything, so resume() carries on the same Transcribe session
+     * without asking for the microphone again. Silence is still sent every few seconds, since AWS ends
+     * streams that receive no audio for 15 seconds
+     */
+    public pause(): boolean {
+        if (!this.isListening || this.isPaused) return false;
+
+        this._log('Pausing stream');
+        const wasSpeaking = this.activeStreaming;
+        this.isPaused = true;
+        this.activeStreaming = false;
+        this.isActivelySpeaking = false;
+        this._clearSilenceTimers();
+        // Drop the pre-roll and hangover, so audio from before the pause isn't sent after it
+        this.gate.clear();
+
+        if (wasSpeaking) this.config.onSpeechEnd();
+        this.config.onStateChange({ isListening: true, isActivelySpeaking: false, isPaused: true, silenceCountdown: null });
+        return true;
+    }
+
+    public resume(): boolean {
+        if (!this.isListening || !this.isPaused) return false;
+
+        this._log('Resuming stream');
+        this.isPaused = false;
+        this.gate.clear();
+        this.config.voiceActivityDetector.reset?.();
+
+        this.config.onStateChange({ isListening: true, isActivelySpeaking: false, isPaused: false });
+        return true;
+    }
+
     public stop(): boolean {
         this._log('Stopping streaming...');
 
-        if (this.startTime) {
-            const minutesUsedThisSession = (Date.now() - this.startTime) / (1000 * 60);
-            storeMinutesUsed(getMinutesUsed() + minutesUsedThisSession);
-        }
-
-        // Close custom stream
-        if (this.customStream) {
-            try {
-                this.customStream.close();
-            } catch (error) {
-                this._log('Error closing custom stream:', error);
-            }
-            this.customStream = null;
-        }
+        // Cancel a pending reconnect or rollover, close the Transcribe streams and save the usage
+        this.session.close();
+        this.isReconnecting = false;
+        this.gate.clear();
 
         // Clean up Web Audio nodes
         if (this.processorNode) {
             try {
+                if (this.captureMode === 'audio-worklet') {
+                    // Drop buffers the worklet posted before it was disconnected
+                    (this.processorNode as AudioWorkletNode).port.onmessage = null;
+                }
                 this.processorNode.disconnect();
             } catch (error) {
                 this._log('Error disconnecting processor node:', error);
             }
             this.processorNode = null;
         }
+        this.resamplers = [];
 
-        if (this.sourceNode) {
-            try {
-                this.sourceNode.disconnect();
-            } catch (error) {
-                this._log('Error disconnecting source node:', error);
-            }
-            this.sourceNode = null;
+        // Releases the microphone. Streams and elements passed in by the caller are left running
+        try {
+            this.audioSource.disconnect();
+            this.remoteSource?.disconnect();
+            this.channelMerger?.disconnect();
+        } catch (error) {
+            this._log('Error disconnecting audio source:', error);
         }
+        this.sourceNode = null;
+        this.channelMerger = null;
 
         if (this.audioContext) {
             try {
@@ -635,59 +831,45 @@ export class AWSTranscribeClient {
             this.audioContext = null;
         }
 
-        // Clean up media stream
-        if (this.stream) {
-            try {
-                this.stream.getTracks().forEach(track => track.stop());
-            } catch (error) {
-                this._log('Error stopping media tracks:', error);
-            }
-            this.stream = null;
-        }
-
-        // Clean up transcribe client
-        if (this.transcribeClient) {
-            try {
-                this.transcribeClient.destroy();
-            } catch (error) {
-                this._log('Error destroying transcribe client:', error);
-            }
-            this.transcribeClient = null;
-        }
-
         // Clear timeouts and intervals
-        if (this.silenceTimeout) {
-            clearTimeout(this.silenceTimeout);
-            this.silenceTimeout = null;
-        }
+        this._clearSilenceTimers();
 
-        if (this.maxSilenceTimeout) {
-            clearTimeout(this.maxSilenceTimeout);
-            this.maxSilenceTimeout = null;
-        }
-
-        if (this.countdownInterval) {
-            clearInterval(this.countdownInterval);
-            this.countdownInterval = null;
+        // Let another tab transcribe
+        this.tabCoordinator?.unfollow();
+        this.tabCoordinator?.release();
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('pagehide', this._handlePageHide);
         }
 
         this.isListening = false;
         this.isActivelySpeaking = false;
-        this.silenceCountdown = null;
+        this.isPaused = false;
         this.activeStreaming = false;
+        this.isFollowing = false;
+        this.followedTranscript = null;
 
         this._log('Streaming stopped');
 
         this.config.onStateChange({
             isListening: false,
-            isActivelySpeaking: false
+            isActivelySpeaking: false,
+            isPaused: false,
+            isFollowing: false
         });
 
         return true;
     }
 
+    /**
+     * Removes the stored credentials of this client's credentialsKey, e.g. on logout. A running
+     * stream keeps the credentials it was opened with, so stop() first to end it
+     */
+    public clearCredentials(): Promise<void> {
+        return this.session.clearCredentials();
+    }
+
     public toggle(): Promise<boolean> | boolean {
-        if (this.isListening) {
+        if (this.isListening || this.isFollowing) {
             return this.stop();
         } else {
             return this.start();
@@ -698,6 +880,9 @@ export class AWSTranscribeClient {
         return {
             isListening: this.isListening,
             isActivelySpeaking: this.isActivelySpeaking,
+            isReconnecting: this.isReconnecting,
+            isPaused: this.isPaused,
+            isFollowing: this.isFollowing,
             silenceCountdown: this.silenceCountdown,
             browserSupported: this.browserSupported
         };
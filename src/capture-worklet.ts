@@ -0,0 +1,145 @@
+import { ResamplerFilter } from './resampler';
+
+export const CAPTURE_PROCESSOR_NAME = 'aws-transcribe-capture-processor';
+
+export interface CaptureProcessorOptions {
+    bufferSize: number;
+    // 1 for the microphone alone, 2 to interleave the microphone and a second source
+    channelCount: number;
+    // RMS threshold evaluated inside the worklet (on the mix of all channels). When null the raw
+    // samples are posted back so a custom VoiceActivityDetector can run on the main thread
+    vadThreshold: number | null;
+    // Filter bank from Resampler.getFilter(), or null when the context already runs at the output rate
+    resampler: ResamplerFilter | null;
+}
+
+export interface CaptureMessage {
+    // Interleaved when there is more than one channel
+    pcm: Int16Array;
+    hasVoice?: boolean;
+    // Mono mix of the resampled channels
+    samples?: Float32Array;
+}
+
+// Runs in the AudioWorkletGlobalScope, so it has to be plain JavaScript without imports.
+// Collects 128-frame render quanta into bufferSize chunks per channel, resamples them with the filter
+// bank designed on the main thread (the loop mirrors Resampler.process), converts them to interleaved
+// 16-bit PCM and transfers them to the main thread over the node's MessagePort.
+const CAPTURE_PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this.bufferSize = options.processorOptions.bufferSize;
+        this.channelCount = options.processorOptions.channelCount;
+        this.vadThreshold = options.processorOptions.vadThreshold;
+        this.resampler = options.processorOptions.resampler;
+        this.offset = 0;
+
+        // Every channel has its own capture buffer and resampler state
+        this.channels = [];
+        for (let c = 0; c < this.channelCount; c++) {
+            this.channels.push({
+                buffer: new Float32Array(this.bufferSize),
+                history: this.resampler ? new Float32Array(this.resampler.phases[0].length - 1) : null,
+                position: 0
+            });
+        }
+    }
+
+    process(inputs) {
+        const input = inputs[0];
+        if (!input || !input[0]) return true;
+
+        for (let i = 0; i < input[0].length; i++) {
+            for (let c = 0; c < this.channelCount; c++) {
+                // A missing channel (e.g. the second source has no track yet) is captured as silence
+                this.channels[c].buffer[this.offset] = input[c] ? input[c][i] : 0;
+            }
+            this.offset++;
+            if (this.offset === this.bufferSize) {
+                this.flush();
+            }
+        }
+        return true;
+    }
+
+    resample(channel, input) {
+        if (!this.resampler) return input;
+
+        const { upFactor, downFactor, phases } = this.resampler;
+        const taps = phases[0].length;
+
+        const buffer = new Float32Array(channel.history.length + input.length);
+        buffer.set(channel.history);
+        buffer.set(input, channel.history.length);
+
+        const output = new Float32Array(Math.ceil((input.length * upFactor - channel.position) / downFactor) + 1);
+        let count = 0;
+
+        let index = Math.floor(channel.position / upFactor) + taps - 1;
+        while (index < buffer.length) {
+            const coefficients = phases[channel.position % upFactor];
+            let sum = 0;
+            for (let k = 0; k < taps; k++) {
+                sum += coefficients[k] * buffer[index - k];
+            }
+
+            output[count++] = sum;
+            channel.position += downFactor;
+            index = Math.floor(channel.position / upFactor) + taps - 1;
+        }
+
+        channel.position -= input.length * upFactor;
+        channel.history = buffer.slice(buffer.length - channel.history.length);
+
+        return output.slice(0, count);
+    }
+
+    flush() {
+        const resampled = this.channels.map(channel => this.resample(channel, channel.buffer));
+        const frames = resampled[0].length;
+        const pcm = new Int16Array(frames * this.channelCount);
+        const samples = new Float32Array(frames);
+        let sum = 0;
+
+        for (let i = 0; i < frames; i++) {
+            let mix = 0;
+            for (let c = 0; c < this.channelCount; c++) {
+                const sample = Math.max(-1, Math.min(1, resampled[c][i]));
+                pcm[i * this.channelCount + c] = Math.floor(sample * 32767);
+                mix += sample;
+            }
+            mix /= this.channelCount;
+            samples[i] = mix;
+            sum += mix * mix;
+        }
+
+        this.channels.forEach(channel => {
+            channel.buffer = new Float32Array(this.bufferSize);
+        });
+        this.offset = 0;
+
+        if (this.vadThreshold === null) {
+            this.port.postMessage({ pcm, samples }, [pcm.buffer, samples.buffer]);
+        } else {
+            const hasVoice = Math.sqrt(sum / frames) > this.vadThreshold;
+            this.port.postMessage({ pcm, hasVoice }, [pcm.buffer]);
+        }
+    }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+/**
+ * Registers the capture processor on the given context from an inline Blob URL, so consumers
+ * don't have to host a separate worklet file
+ */
+export const loadCaptureWorklet = async (audioContext: AudioContext): Promise<void> => {
+    const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+        await audioContext.audioWorklet.addModule(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,222 @@
+import { TranscribeCredentials } from './transcribe-session';
+import { BrowserNotSupportedError } from './errors';
+
+/**
+ * Where the STS credentials from the credentials provider are kept between sessions. Keys are
+ * per user or tenant, see credentialsKey
+ */
+export interface CredentialStore {
+    get(key: string): Promise<TranscribeCredentials | null>;
+    set(key: string, credentials: TranscribeCredentials): Promise<void>;
+    remove(key: string): Promise<void>;
+}
+
+interface EncryptedCredentials {
+    iv: Uint8Array;
+    data: ArrayBuffer;
+}
+
+// Names used by IndexedDBCredentialStore
+const DATABASE_NAME = 'aws-transcribe-client';
+const DATABASE_VERSION = 1;
+const CREDENTIALS_STORE = 'credentials';
+const KEYS_STORE = 'keys';
+const ENCRYPTION_KEY_ID = 'credentials';
+
+const parseCredentials = (stored: string): TranscribeCredentials => {
+    const parsed = JSON.parse(stored);
+    return {
+        ...parsed,
+        expiration: new Date(parsed.expiration)
+    };
+};
+
+/**
+ * Keeps credentials for the lifetime of the page only. The default
+ */
+export class MemoryCredentialStore implements CredentialStore {
+    private credentials: Map<string, TranscribeCredentials>;
+
+    constructor() {
+        this.credentials = new Map();
+    }
+
+    async get(key: string): Promise<TranscribeCredentials | null> {
+        return this.credentials.get(key) || null;
+    }
+
+    async set(key: string, credentials: TranscribeCredentials): Promise<void> {
+        this.credentials.set(key, credentials);
+    }
+
+    async remove(key: string): Promise<void> {
+        this.credentials.delete(key);
+    }
+}
+
+// Credentials as plain JSON in localStorage or sessionStorage. Without the storage (e.g. in Node)
+// nothing is kept
+class WebStorageCredentialStore implements CredentialStore {
+    private readonly getStorage: () => Storage | null;
+
+    constructor(getStorage: () => Storage | null) {
+        this.getStorage = getStorage;
+    }
+
+    async get(key: string): Promise<TranscribeCredentials | null> {
+        const storage = this.getStorage();
+        const stored = storage?.getItem(key);
+        if (!storage || !stored) return null;
+
+        try {
+            return parseCredentials(stored);
+        } catch (e) {
+            storage.removeItem(key);
+            throw e;
+        }
+    }
+
+    async set(key: string, credentials: TranscribeCredentials): Promise<void> {
+        this.getStorage()?.setItem(key, JSON.stringify(credentials));
+    }
+
+    async remove(key: string): Promise<void> {
+        this.getStorage()?.removeItem(key);
+    }
+}
+
+/**
+ * Keeps credentials until the tab is closed, shared by reloads of the page
+ */
+export class SessionStorageCredentialStore extends WebStorageCredentialStore {
+    constructor() {
+        super(() => typeof sessionStorage === 'undefined' ? null : sessionStorage);
+    }
+}
+
+/**
+ * Keeps credentials across tabs and browser restarts, readable by any script on the origin
+ */
+export class LocalStorageCredentialStore extends WebStorageCredentialStore {
+    constructor() {
+        super(() => typeof localStorage === 'undefined' ? null : localStorage);
+    }
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const toCompletion = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+/**
+ * Keeps credentials in IndexedDB, encrypted with AES-GCM. The key is generated in the browser as
+ * non-extractable, so it can be used by scripts on the origin but never read out, and the stored
+ * credentials are useless when copied off the device
+ */
+export class IndexedDBCredentialStore implements CredentialStore {
+    private readonly databaseName: string;
+    private database: Promise<IDBDatabase> | null;
+    private encryptionKey: Promise<CryptoKey> | null;
+
+    constructor(databaseName = DATABASE_NAME) {
+        this.databaseName = databaseName;
+        this.database = null;
+        this.encryptionKey = null;
+    }
+
+    async get(key: string): Promise<TranscribeCredentials | null> {
+        const database = await this._open();
+        const store = database.transaction(CREDENTIALS_STORE).objectStore(CREDENTIALS_STORE);
+        const record: EncryptedCredentials | undefined = await toPromise(store.get(key));
+        if (!record) return null;
+
+        try {
+            const encryptionKey = await this._getEncryptionKey();
+            const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, encryptionKey, record.data);
+            return parseCredentials(new TextDecoder().decode(data));
+        } catch (e) {
+            // Encrypted with a key that was since deleted, or damaged
+            await this.remove(key);
+            throw e;
+        }
+    }
+
+    async set(key: string, credentials: TranscribeCredentials): Promise<void> {
+        const encryptionKey = await this._getEncryptionKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            encryptionKey,
+            new TextEncoder().encode(JSON.stringify(credentials))
+        );
+
+        const database = await this._open();
+        const transaction = database.transaction(CREDENTIALS_STORE, 'readwrite');
+        const record: EncryptedCredentials = { iv, data };
+        transaction.objectStore(CREDENTIALS_STORE).put(record, key);
+        await toCompletion(transaction);
+    }
+
+    async remove(key: string): Promise<void> {
+        const database = await this._open();
+        const transaction = database.transaction(CREDENTIALS_STORE, 'readwrite');
+        transaction.objectStore(CREDENTIALS_STORE).delete(key);
+        await toCompletion(transaction);
+    }
+
+    private _open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+                return Promise.reject(new BrowserNotSupportedError('IndexedDB and WebCrypto are needed to store credentials encrypted'));
+            }
+
+            const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(CREDENTIALS_STORE);
+                request.result.createObjectStore(KEYS_STORE);
+            };
+            this.database = toPromise(request);
+            // Allow another attempt, e.g. after the user left private browsing
+            this.database.catch(() => { this.database = null; });
+        }
+        return this.database;
+    }
+
+    // Loads the encryption key, or generates it on first use
+    private _getEncryptionKey(): Promise<CryptoKey> {
+        if (!this.encryptionKey) {
+            this.encryptionKey = this._loadEncryptionKey();
+            this.encryptionKey.catch(() => { this.encryptionKey = null; });
+        }
+        return this.encryptionKey;
+    }
+
+    private async _loadEncryptionKey(): Promise<CryptoKey> {
+        const database = await this._open();
+        const stored: CryptoKey | undefined = await toPromise(
+            database.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(ENCRYPTION_KEY_ID)
+        );
+        if (stored) return stored;
+
+        const encryptionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        const transaction = database.transaction(KEYS_STORE, 'readwrite');
+        // add() fails when another tab stored a key in the meantime, in which case that one is used
+        transaction.objectStore(KEYS_STORE).add(encryptionKey, ENCRYPTION_KEY_ID);
+        try {
+            await toCompletion(transaction);
+            return encryptionKey;
+        } catch {
+            const winner: CryptoKey | undefined = await toPromise(
+                database.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(ENCRYPTION_KEY_ID)
+            );
+            if (!winner) throw transaction.error;
+            return winner;
+        }
+    }
+}
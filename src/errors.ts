@@ -0,0 +1,166 @@
+export type TranscribeErrorCode =
+    | 'BROWSER_NOT_SUPPORTED'
+    | 'MICROPHONE_PERMISSION_DENIED'
+    | 'MICROPHONE_NOT_FOUND'
+    | 'MICROPHONE_UNAVAILABLE'
+    | 'CREDENTIALS_FAILED'
+    | 'CREDENTIALS_REJECTED'
+    | 'BAD_REQUEST'
+    | 'LIMIT_EXCEEDED'
+    | 'CONFLICT'
+    | 'SERVICE_UNAVAILABLE'
+    | 'STREAM_ERROR'
+    | 'UNSUPPORTED_AUDIO_FORMAT'
+    | 'QUOTA_EXHAUSTED'
+    | 'ANOTHER_TAB_ACTIVE';
+
+export interface TranscribeErrorOptions {
+    recoverable: boolean;
+    awsErrorName?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error the client reports through onError or a rejected start()
+ */
+export class TranscribeError<C extends TranscribeErrorCode = TranscribeErrorCode> extends Error {
+    readonly code: C;
+    // True when retrying (reconnecting, calling start() again) may succeed without user action
+    readonly recoverable: boolean;
+    // Name of the AWS service exception, e.g. 'LimitExceededException'
+    readonly awsErrorName?: string;
+    readonly cause?: unknown;
+
+    constructor(code: C, message: string, options: TranscribeErrorOptions) {
+        super(message);
+        // Keep instanceof working when the bundle is transpiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'TranscribeError';
+        this.code = code;
+        this.recoverable = options.recoverable;
+        this.awsErrorName = options.awsErrorName;
+        this.cause = options.cause;
+    }
+}
+
+export class BrowserNotSupportedError extends TranscribeError<'BROWSER_NOT_SUPPORTED'> {
+    constructor(message: string) {
+        super('BROWSER_NOT_SUPPORTED', message, { recoverable: false });
+        this.name = 'BrowserNotSupportedError';
+    }
+}
+
+export class MicrophoneError extends TranscribeError<
+    'MICROPHONE_PERMISSION_DENIED' | 'MICROPHONE_NOT_FOUND' | 'MICROPHONE_UNAVAILABLE'
+> {
+    constructor(code: MicrophoneError['code'], message: string, cause?: unknown) {
+        super(code, message, { recoverable: false, cause });
+        this.name = 'MicrophoneError';
+    }
+}
+
+export class CredentialsError extends TranscribeError<'CREDENTIALS_FAILED' | 'CREDENTIALS_REJECTED'> {
+    constructor(code: CredentialsError['code'], message: string, options: Omit<TranscribeErrorOptions, 'recoverable'> & {
+        recoverable?: boolean;
+    } = {}) {
+        super(code, message, { recoverable: true, ...options });
+        this.name = 'CredentialsError';
+    }
+}
+
+export class TranscribeServiceError extends TranscribeError<
+    'BAD_REQUEST' | 'LIMIT_EXCEEDED' | 'CONFLICT' | 'SERVICE_UNAVAILABLE'
+> {
+    constructor(code: TranscribeServiceError['code'], message: string, options: TranscribeErrorOptions) {
+        super(code, message, options);
+        this.name = 'TranscribeServiceError';
+    }
+}
+
+export class TranscribeStreamError extends TranscribeError<'STREAM_ERROR'> {
+    constructor(message: string, cause?: unknown) {
+        super('STREAM_ERROR', message, { recoverable: true, cause });
+        this.name = 'TranscribeStreamError';
+    }
+}
+
+export class AudioFormatError extends TranscribeError<'UNSUPPORTED_AUDIO_FORMAT'> {
+    constructor(message: string) {
+        super('UNSUPPORTED_AUDIO_FORMAT', message, { recoverable: false });
+        this.name = 'AudioFormatError';
+    }
+}
+
+// Recoverable, since start() asks the credentials provider again, which may reserve more minutes
+export class QuotaExceededError extends TranscribeError<'QUOTA_EXHAUSTED'> {
+    constructor(message: string) {
+        super('QUOTA_EXHAUSTED', message, { recoverable: true });
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// Recoverable, since the other tab may stop. See TabCoordinator and followActiveTab
+export class TabCoordinationError extends TranscribeError<'ANOTHER_TAB_ACTIVE'> {
+    constructor(message: string) {
+        super('ANOTHER_TAB_ACTIVE', message, { recoverable: true });
+        this.name = 'TabCoordinationError';
+    }
+}
+
+const getMessage = (error: unknown): string => {
+    const message = error instanceof Error ? error.message : String(error);
+    return message || 'Unknown error';
+};
+
+/**
+ * Maps a getUserMedia rejection (a DOMException) to a MicrophoneError
+ */
+export const createMicrophoneError = (error: unknown): MicrophoneError => {
+    const name = error instanceof Error ? error.name : '';
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return new MicrophoneError('MICROPHONE_PERMISSION_DENIED', 'Microphone access was denied', error);
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return new MicrophoneError('MICROPHONE_NOT_FOUND', 'No microphone was found', error);
+        default:
+            return new MicrophoneError('MICROPHONE_UNAVAILABLE', `Microphone could not be started: ${getMessage(error)}`, error);
+    }
+};
+
+/**
+ * Wraps anything thrown by the AWS SDK or the result stream, keyed on the service exception name
+ */
+export const toTranscribeError = (error: unknown): TranscribeError => {
+    if (error instanceof TranscribeError) return error;
+
+    const awsErrorName = error instanceof Error ? error.name : undefined;
+    const message = getMessage(error);
+    const options = { awsErrorName, cause: error };
+
+    switch (awsErrorName) {
+        case 'BadRequestException':
+            // Streams that received no audio for 15 seconds are closed with a BadRequestException,
+            // which a new stream fixes. Other bad requests (e.g. an unsupported language) won't go away
+            return new TranscribeServiceError('BAD_REQUEST', message, {
+                ...options,
+                recoverable: /timed out/i.test(message)
+            });
+        case 'LimitExceededException':
+            return new TranscribeServiceError('LIMIT_EXCEEDED', message, { ...options, recoverable: true });
+        case 'ConflictException':
+            return new TranscribeServiceError('CONFLICT', message, { ...options, recoverable: true });
+        case 'InternalFailureException':
+        case 'ServiceUnavailableException':
+            return new TranscribeServiceError('SERVICE_UNAVAILABLE', message, { ...options, recoverable: true });
+        case 'ExpiredTokenException':
+        case 'InvalidSignatureException':
+            return new CredentialsError('CREDENTIALS_REJECTED', message, { ...options, recoverable: true });
+        case 'UnrecognizedClientException':
+        case 'AccessDeniedException':
+            return new CredentialsError('CREDENTIALS_REJECTED', message, { ...options, recoverable: false });
+        default:
+            return new TranscribeStreamError(message, error);
+    }
+};
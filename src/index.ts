@@ -7,8 +7,121 @@ export {
     type TranscribeOptions
 } from './aws-transcribe-client';
 
-// Export React component and props
+// Export the environment-neutral core for audio from other sources
+export {
+    TranscribeSession,
+    transcribeAudio,
+    type TranscribeSessionOptions,
+    type TranscribeVocabularyOptions,
+    type TranscribeLanguageIdentificationOptions,
+    type TranscribePartialResultsOptions,
+    type TranscribeMedicalOptions,
+    type TranscribeContentIdentificationOptions,
+    type LanguageDetectedEvent,
+    type QuotaWarningEvent,
+    type TranscribeAudioOptions,
+    type TranscribeAudioResult,
+    type TranscribeCredentialsProvider,
+    type ReconnectPolicy,
+    type RolloverPolicy,
+    type ReconnectingEvent
+} from './transcribe-session';
+
+// Export credential stores
+export {
+    MemoryCredentialStore,
+    SessionStorageCredentialStore,
+    LocalStorageCredentialStore,
+    IndexedDBCredentialStore,
+    type CredentialStore
+} from './credential-store';
+
+// Export usage metering
+export {
+    UsageMeter,
+    MemoryUsageStore,
+    LocalStorageUsageStore,
+    type UsageStore,
+    type UsageMeterOptions,
+    type UsageReservation
+} from './usage-meter';
+
+// Export tab coordination
+export {
+    TabCoordinator,
+    type TabCoordinatorOptions,
+    type TabFollower,
+    type SharedTranscriptData
+} from './tab-coordinator';
+
+// Export file transcription
+export {
+    transcribeAudioFile,
+    decodeAudioFile,
+    type TranscribeFileOptions,
+    type TranscribeFileProgress
+} from './audio-file';
+export { parseWav, type DecodedAudio } from './wav';
+
+// Export transcript result types
+export {
+    type TranscriptSegment,
+    type TranscriptWord,
+    type TranscriptEntity,
+    type TranscriptAlternative,
+    type PiiEntityType
+} from './transcript-segment';
+export {
+    splitByEntities,
+    redactTranscript,
+    type TranscriptPart
+} from './transcript-entities';
+export {
+    TranscriptAssembler,
+    type ChannelTranscript,
+    type SpeakerTurn
+} from './transcript-assembler';
+
+// Export error types
+export {
+    TranscribeError,
+    BrowserNotSupportedError,
+    MicrophoneError,
+    CredentialsError,
+    TranscribeServiceError,
+    TranscribeStreamError,
+    AudioFormatError,
+    QuotaExceededError,
+    TabCoordinationError,
+    type TranscribeErrorCode
+} from './errors';
+
+// Export voice activity detectors
+export {
+    RMSVoiceActivityDetector,
+    AdaptiveVoiceActivityDetector,
+    type VoiceActivityDetector,
+    type AdaptiveVoiceActivityDetectorOptions
+} from './voice-activity-detector';
+
+// Export audio sources
+export {
+    MicrophoneAudioSource,
+    MediaStreamAudioSource,
+    MediaElementAudioSource,
+    listInputDevices,
+    type AudioSource,
+    type MicrophoneAudioSourceOptions
+} from './audio-source';
+
+// Export React component, hook and props
 export {
     ReactAWSTranscribe,
     type ReactAWSTranscribeProps
 } from './react-aws-transcribe';
+export {
+    useAWSTranscribe,
+    type UseAWSTranscribeOptions,
+    type UseAWSTranscribeResult
+} from './use-aws-transcribe';
+export { TranscriptText, type TranscriptTextProps } from './transcript-text';
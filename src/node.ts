@@ -0,0 +1,126 @@
+import { readFile } from 'fs/promises';
+import { isWav, parseWav } from './wav';
+import { TranscribeFileOptions, transcribeDecodedAudio, transcribePCM } from './audio-file';
+import { TranscribeAudioOptions, TranscribeAudioResult, transcribeAudio } from './transcribe-session';
+
+// Turns a byte stream of little-endian 16-bit PCM into samples, carrying an odd trailing byte over
+// to the next chunk
+async function* toPCMChunks(readable: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): AsyncGenerator<Int16Array> {
+    let carry: Uint8Array | null = null;
+
+    for await (const chunk of readable) {
+        let bytes = chunk;
+        if (carry) {
+            bytes = new Uint8Array(carry.length + chunk.length);
+            bytes.set(carry);
+            bytes.set(chunk, carry.length);
+            carry = null;
+        }
+
+        const length = bytes.length - (bytes.length % 2);
+        if (length < bytes.length) {
+            carry = bytes.slice(length);
+        }
+        if (length > 0) {
+            // Copy into a buffer of our own, since Node Buffers are often unaligned views into a shared pool
+            const pcmData = new Int16Array(length / 2);
+            new Uint8Array(pcmData.buffer).set(bytes.subarray(0, length));
+            yield pcmData;
+        }
+    }
+}
+
+/**
+ * Transcribes raw 16-bit little-endian PCM from a Node stream, e.g. audio arriving over a WebSocket.
+ * The audio must already be at options.sampleRate (16 kHz by default) and is sent as it arrives
+ */
+export const transcribeStream = (
+    readable: AsyncIterable<Uint8Array>,
+    options: TranscribeAudioOptions
+): Promise<TranscribeAudioResult> => transcribeAudio(toPCMChunks(readable), options);
+
+/**
+ * Transcribes a WAV file, resampling it to options.sampleRate. Files without a WAV header are read
+ * as raw 16-bit PCM at options.sampleRate. The audio is sent at options.speed times real time,
+ * where 0 sends it as fast as possible
+ */
+export const transcribeFile = async (path: string, options: TranscribeFileOptions): Promise<TranscribeAudioResult> => {
+    const data = await readFile(path);
+
+    if (isWav(data)) {
+        return transcribeDecodedAudio(parseWav(data), options);
+    }
+
+    // Copy into a buffer of our own, since the file's Buffer may be an unaligned view into a shared pool
+    const pcmData = new Int16Array(Math.floor(data.length / 2));
+    new Uint8Array(pcmData.buffer).set(data.subarray(0, pcmData.byteLength));
+    return transcribePCM(pcmData, options.channelCount || 1, options);
+};
+
+// The environment-neutral core, for audio from other sources
+export {
+    TranscribeSession,
+    transcribeAudio,
+    type TranscribeSessionOptions,
+    type TranscribeVocabularyOptions,
+    type TranscribeLanguageIdentificationOptions,
+    type TranscribePartialResultsOptions,
+    type TranscribeMedicalOptions,
+    type TranscribeContentIdentificationOptions,
+    type LanguageDetectedEvent,
+    type QuotaWarningEvent,
+    type TranscribeAudioOptions,
+    type TranscribeAudioResult,
+    type TranscribeCredentials,
+    type TranscribeCredentialsProvider,
+    type TranscriptData,
+    type ReconnectPolicy,
+    type RolloverPolicy,
+    type ReconnectingEvent
+} from './transcribe-session';
+export { MemoryCredentialStore, type CredentialStore } from './credential-store';
+export {
+    UsageMeter,
+    MemoryUsageStore,
+    type UsageStore,
+    type UsageMeterOptions,
+    type UsageReservation
+} from './usage-meter';
+
+export { parseWav, type DecodedAudio } from './wav';
+export { type TranscribeFileOptions, type TranscribeFileProgress } from './audio-file';
+
+export {
+    type TranscriptSegment,
+    type TranscriptWord,
+    type TranscriptEntity,
+    type TranscriptAlternative,
+    type PiiEntityType
+} from './transcript-segment';
+export {
+    splitByEntities,
+    redactTranscript,
+    type TranscriptPart
+} from './transcript-entities';
+export {
+    TranscriptAssembler,
+    type ChannelTranscript,
+    type SpeakerTurn
+} from './transcript-assembler';
+
+export {
+    TranscribeError,
+    CredentialsError,
+    TranscribeServiceError,
+    TranscribeStreamError,
+    AudioFormatError,
+    QuotaExceededError,
+    type TranscribeErrorCode
+} from './errors';
+
+export {
+    RMSVoiceActivityDetector,
+    AdaptiveVoiceActivityDetector,
+    type VoiceActivityDetector,
+    type AdaptiveVoiceActivityDetectorOptions
+} from './voice-activity-detector';
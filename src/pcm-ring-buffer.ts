@@ -0,0 +1,35 @@
+// Fixed-capacity buffer holding the most recent PCM chunks, e.g. while the VAD gate is closed
+export class PCMRingBuffer {
+    private chunks: Int16Array[];
+    private length: number;
+    private readonly capacity: number;
+
+    constructor(capacity: number) {
+        this.chunks = [];
+        this.length = 0;
+        this.capacity = capacity;
+    }
+
+    push(chunk: Int16Array): void {
+        if (this.capacity <= 0) return;
+
+        this.chunks.push(chunk);
+        this.length += chunk.length;
+
+        // Drop the oldest chunks once the remaining ones already cover the capacity
+        while (this.chunks.length > 1 && this.length - this.chunks[0].length >= this.capacity) {
+            this.length -= this.chunks.shift()!.length;
+        }
+    }
+
+    drain(): Int16Array[] {
+        const chunks = this.chunks;
+        this.clear();
+        return chunks;
+    }
+
+    clear(): void {
+        this.chunks = [];
+        this.length = 0;
+    }
+}
@@ -1,12 +1,13 @@
 import * as React from 'react';
-import { useEffect, useState, useRef, ReactNode } from 'react';
+import { ReactNode } from 'react';
 import { LanguageCode } from "@aws-sdk/client-transcribe-streaming";
 import {
-    AWSTranscribeClient,
     TranscribeOptions,
     TranscribeState,
     TranscriptData
 } from './aws-transcribe-client';
+import { TranscribeError } from './errors';
+import { useAWSTranscribe } from './use-aws-transcribe';
 
 export interface ReactAWSTranscribeProps {
     // AWS Configuration
@@ -14,39 +15,94 @@ export interface ReactAWSTranscribeProps {
     languageCode?: LanguageCode | string;
     sampleRate?: number;
 
+    // Language identification, used instead of languageCode
+    identifyLanguage?: boolean;
+    identifyMultipleLanguages?: boolean;
+    languageOptions?: TranscribeOptions['languageOptions'];
+    preferredLanguage?: TranscribeOptions['preferredLanguage'];
+
     // Voice detection settings
     vadThreshold?: number;
+    voiceActivityDetector?: TranscribeOptions['voiceActivityDetector'];
     silenceDuration?: number;
     maxSilenceDuration?: number;
+    preRollDuration?: number;
+    hangoverDuration?: number;
+
+    // Audio input. Changing it switches sources without restarting the session
+    audioSource?: TranscribeOptions['audioSource'];
+
+    // Transcription settings
+    showSpeakerLabel?: boolean;
+    medical?: TranscribeOptions['medical'];
+    remoteStream?: MediaStream;
+    partialResults?: boolean;
+    enablePartialResultsStabilization?: boolean;
+    partialResultsStability?: TranscribeOptions['partialResultsStability'];
+    maxInterimUpdatesPerSecond?: number;
+
+    // PII identification or redaction
+    contentIdentificationType?: TranscribeOptions['contentIdentificationType'];
+    contentRedactionType?: TranscribeOptions['contentRedactionType'];
+    piiEntityTypes?: TranscribeOptions['piiEntityTypes'];
+
+    // Custom vocabulary, vocabulary filter and language model
+    vocabularyName?: string;
+    vocabularyFilterName?: string;
+    vocabularyFilterMethod?: TranscribeOptions['vocabularyFilterMethod'];
+    languageModelName?: string;
 
     // Credential provider
     credentialsProvider: TranscribeOptions['credentialsProvider'];
+    credentialStore?: TranscribeOptions['credentialStore'];
+    credentialsKey?: string;
+    usageMeter?: TranscribeOptions['usageMeter'];
+    quotaWarningMinutes?: number;
+    tabCoordinator?: TranscribeOptions['tabCoordinator'];
+    followActiveTab?: boolean;
     generateSessionId?: TranscribeOptions['generateSessionId'];
+    reconnect?: TranscribeOptions['reconnect'];
+    rollover?: TranscribeOptions['rollover'];
 
     // Event callbacks
     onTranscript?: (data: TranscriptData) => void;
+    onResult?: TranscribeOptions['onResult'];
+    onLanguageDetected?: TranscribeOptions['onLanguageDetected'];
+    onQuotaWarning?: TranscribeOptions['onQuotaWarning'];
     onSpeechStart?: () => void;
     onSpeechEnd?: () => void;
-    onError?: (error: string) => void;
+    onError?: (error: TranscribeError) => void;
     onStateChange?: (state: TranscribeState) => void;
+    onReconnecting?: TranscribeOptions['onReconnecting'];
+    onReconnected?: TranscribeOptions['onReconnected'];
 
     // Custom rendering
     children?: (props: {
         isListening: boolean;
         isActivelySpeaking: boolean;
+        isReconnecting: boolean;
+        isPaused: boolean;
         silenceCountdown: number | null;
         browserSupported: boolean;
-        error: string | null;
+        error: TranscribeError | null;
         toggleListening: () => Promise<boolean> | boolean;
+        pause: () => boolean;
+        resume: () => boolean;
+        clearCredentials: () => Promise<void>;
     }) => ReactNode;
 
     renderMicButton?: (props: {
         isListening: boolean;
         isActivelySpeaking: boolean;
+        isReconnecting: boolean;
+        isPaused: boolean;
         silenceCountdown: number | null;
         browserSupported: boolean;
-        error: string | null;
+        error: TranscribeError | null;
         toggleListening: () => Promise<boolean> | boolean;
+        pause: () => boolean;
+        resume: () => boolean;
+        clearCredentials: () => Promise<void>;
     }) => ReactNode;
 
     // CSS class names
@@ -57,102 +113,40 @@ export interface ReactAWSTranscribeProps {
 }
 
 export const ReactAWSTranscribe: React.FC<ReactAWSTranscribeProps> = ({
-                                                                          region,
-                                                                          languageCode,
-                                                                          sampleRate,
-                                                                          vadThreshold,
-                                                                          silenceDuration,
-                                                                          maxSilenceDuration,
-                                                                          credentialsProvider,
-                                                                          generateSessionId,
-                                                                          onTranscript,
-                                                                          onSpeechStart,
-                                                                          onSpeechEnd,
-                                                                          onError,
-                                                                          onStateChange,
                                                                           children,
                                                                           renderMicButton,
                                                                           className = "aws-transcribe-container",
                                                                           speakingClassName = "speaking",
                                                                           listeningClassName = "listening",
-                                                                          errorClassName = "aws-transcribe-error"
+                                                                          errorClassName = "aws-transcribe-error",
+                                                                          ...options
                                                                       }) => {
-    const [isListening, setIsListening] = useState<boolean>(false);
-    const [isActivelySpeaking, setIsActivelySpeaking] = useState<boolean>(false);
-    const [silenceCountdown, setSilenceCountdown] = useState<number | null>(null);
-    const [browserSupported, setBrowserSupported] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-
-    const clientRef = useRef<AWSTranscribeClient | null>(null);
-
-    useEffect(() => {
-        // Initialize the AWSTranscribeClient
-        clientRef.current = new AWSTranscribeClient({
-            region,
-            languageCode,
-            sampleRate,
-            vadThreshold,
-            silenceDuration,
-            maxSilenceDuration,
-            credentialsProvider,
-            generateSessionId,
-            onTranscript: (data) => {
-                if (onTranscript) onTranscript(data);
-            },
-            onSpeechStart: () => {
-                if (onSpeechStart) onSpeechStart();
-            },
-            onSpeechEnd: () => {
-                if (onSpeechEnd) onSpeechEnd();
-            },
-            onError: (errorMsg) => {
-                setError(errorMsg);
-                if (onError) onError(errorMsg);
-            },
-            onStateChange: (state) => {
-                setIsListening(state.isListening);
-                setIsActivelySpeaking(state.isActivelySpeaking);
-                if (state.silenceCountdown !== undefined) {
-                    setSilenceCountdown(state.silenceCountdown);
-                }
-                if (onStateChange) onStateChange(state);
-            }
-        });
-
-        setBrowserSupported(clientRef.current.isBrowserSupported());
-
-        // Clean up on unmount
-        return () => {
-            if (clientRef.current && clientRef.current.getState().isListening) {
-                clientRef.current.stop();
-            }
-        };
-    }, [
-        region, languageCode, sampleRate, vadThreshold, silenceDuration,
-        maxSilenceDuration, credentialsProvider, generateSessionId,
-        onTranscript, onSpeechStart, onSpeechEnd, onError, onStateChange
-    ]);
-
-    const toggleListening = async (): Promise<boolean> => {
-        if (!clientRef.current) return false;
-
-        try {
-            return await clientRef.current.toggle();
-        } catch (err: unknown) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            console.error('Error toggling speech recognition:', errorMessage);
-            setError(errorMessage || 'Failed to toggle speech recognition');
-            return false;
-        }
-    };
+    const {
+        isListening,
+        isActivelySpeaking,
+        isReconnecting,
+        isPaused,
+        silenceCountdown,
+        browserSupported,
+        error,
+        toggle: toggleListening,
+        pause,
+        resume,
+        clearCredentials
+    } = useAWSTranscribe(options);
 
     const renderProps = {
         isListening,
         isActivelySpeaking,
+        isReconnecting,
+        isPaused,
         silenceCountdown,
         browserSupported,
         error,
-        toggleListening
+        toggleListening,
+        pause,
+        resume,
+        clearCredentials
     };
 
     // If children prop is provided, render those instead of default UI
@@ -189,18 +183,22 @@ export const ReactAWSTranscribe: React.FC<ReactAWSTranscribeProps> = ({
 
             <div className="aws-transcribe-status">
                 {isListening
-                    ? isActivelySpeaking
-                        ? 'Active Speech Detected'
-                        : silenceCountdown
-                            ? `No Speech Detected (${silenceCountdown}s)`
-                            : 'Waiting for Speech'
+                    ? isPaused
+                        ? 'Paused'
+                        : isReconnecting
+                            ? 'Reconnecting...'
+                            : isActivelySpeaking
+                                ? 'Active Speech Detected'
+                                : silenceCountdown
+                                    ? `No Speech Detected (${silenceCountdown}s)`
+                                    : 'Waiting for Speech'
                     : 'Paused'
                 }
             </div>
 
             {error && (
                 <div className={errorClassName}>
-                    Error: {error}
+                    Error: {error.message}
                 </div>
             )}
         </div>
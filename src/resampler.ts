@@ -0,0 +1,124 @@
+export interface ResamplerFilter {
+    upFactor: number;
+    downFactor: number;
+    // One set of FIR coefficients per polyphase branch, all of the same length
+    phases: Float32Array[];
+}
+
+// Zero crossings of the sinc kernel on each side, measured at the lower of the two rates
+const ZERO_CROSSINGS = 10;
+// Cutoff relative to the lower Nyquist frequency, leaving room for the transition band
+const CUTOFF_RATIO = 0.9;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Designs a windowed-sinc low-pass filter for a rational L/M rate change and splits it into
+ * L polyphase branches
+ */
+export const designResamplerFilter = (inputRate: number, outputRate: number): ResamplerFilter => {
+    const divisor = gcd(Math.round(inputRate), Math.round(outputRate));
+    const upFactor = Math.round(outputRate) / divisor;
+    const downFactor = Math.round(inputRate) / divisor;
+
+    // Everything below is expressed at the virtual upsampled rate L * inputRate
+    const cutoff = CUTOFF_RATIO * 0.5 / Math.max(upFactor, downFactor);
+    const length = 2 * ZERO_CROSSINGS * Math.max(upFactor, downFactor) + 1;
+    const tapsPerPhase = Math.ceil(length / upFactor);
+    const center = (length - 1) / 2;
+
+    const phases: Float32Array[] = [];
+    for (let phase = 0; phase < upFactor; phase++) {
+        const taps = new Float32Array(tapsPerPhase);
+        let sum = 0;
+
+        for (let k = 0; k < tapsPerPhase; k++) {
+            const m = phase + k * upFactor;
+            if (m >= length) break;
+
+            const x = m - center;
+            const sinc = x === 0 ? 1 : Math.sin(2 * Math.PI * cutoff * x) / (2 * Math.PI * cutoff * x);
+            // Blackman window
+            const weight = 0.42 - 0.5 * Math.cos(2 * Math.PI * m / (length - 1))
+                + 0.08 * Math.cos(4 * Math.PI * m / (length - 1));
+
+            taps[k] = sinc * weight;
+            sum += taps[k];
+        }
+
+        // Normalize every branch to unity DC gain so no phase is louder than another
+        if (sum !== 0) {
+            for (let k = 0; k < tapsPerPhase; k++) {
+                taps[k] /= sum;
+            }
+        }
+        phases.push(taps);
+    }
+
+    return { upFactor, downFactor, phases };
+};
+
+/**
+ * Streaming polyphase resampler. Keeps filter history between calls, so consecutive capture
+ * buffers can be fed in without clicks at the boundaries
+ */
+export class Resampler {
+    readonly inputRate: number;
+    readonly outputRate: number;
+    private readonly filter: ResamplerFilter | null;
+    private history: Float32Array;
+    private position: number;
+
+    constructor(inputRate: number, outputRate: number) {
+        this.inputRate = inputRate;
+        this.outputRate = outputRate;
+        this.filter = inputRate === outputRate ? null : designResamplerFilter(inputRate, outputRate);
+        this.history = new Float32Array(this.filter ? this.filter.phases[0].length - 1 : 0);
+        this.position = 0;
+    }
+
+    /**
+     * The filter bank, or null when the rates match and samples pass through unchanged
+     */
+    getFilter(): ResamplerFilter | null {
+        return this.filter;
+    }
+
+    reset(): void {
+        this.history.fill(0);
+        this.position = 0;
+    }
+
+    process(input: Float32Array): Float32Array {
+        if (!this.filter) return input;
+
+        const { upFactor, downFactor, phases } = this.filter;
+        const taps = phases[0].length;
+
+        const buffer = new Float32Array(this.history.length + input.length);
+        buffer.set(this.history);
+        buffer.set(input, this.history.length);
+
+        const output = new Float32Array(Math.ceil((input.length * upFactor - this.position) / downFactor) + 1);
+        let count = 0;
+
+        // position is the next output sample's index at the upsampled rate, relative to the start of input
+        let index = Math.floor(this.position / upFactor) + taps - 1;
+        while (index < buffer.length) {
+            const coefficients = phases[this.position % upFactor];
+            let sum = 0;
+            for (let k = 0; k < taps; k++) {
+                sum += coefficients[k] * buffer[index - k];
+            }
+
+            output[count++] = sum;
+            this.position += downFactor;
+            index = Math.floor(this.position / upFactor) + taps - 1;
+        }
+
+        this.position -= input.length * upFactor;
+        this.history = buffer.slice(buffer.length - this.history.length);
+
+        return output.subarray(0, count);
+    }
+}
@@ -0,0 +1,214 @@
+import { Logger, TranscriptData, generateUUID } from './transcribe-session';
+
+// A transcript as the active tab shares it with its followers
+export type SharedTranscriptData = Omit<TranscriptData, 'resetTranscript'>;
+
+export interface TabFollower {
+    onTranscript: (data: SharedTranscriptData) => void;
+    // The active tab closed while transcribing and this tab was elected to carry on. It is the active
+    // tab already, and is no longer following
+    onHandover: () => void;
+    // The active tab stopped without handing over, and this tab no longer follows it
+    onActiveTabStopped: () => void;
+}
+
+export interface TabCoordinatorOptions {
+    // Tabs coordinate per key, e.g. a user id, so different users on one browser don't block each other
+    key?: string;
+    log?: Logger;
+}
+
+type TabMessage =
+    | { type: 'claim'; tabId: string; at: number }
+    | { type: 'heartbeat'; tabId: string }
+    | { type: 'release'; tabId: string; handover: boolean }
+    | { type: 'transcript'; tabId: string; data: SharedTranscriptData };
+
+const CHANNEL_NAME = 'aws-transcribe';
+const CLAIM_TIMEOUT = 200; // Time other tabs get to object to a claim (ms)
+const HEARTBEAT_INTERVAL = 1000; // How often the active tab announces itself (ms)
+const HEARTBEAT_TIMEOUT = 3500; // Silence after which the active tab is presumed gone, e.g. crashed (ms)
+
+/**
+ * Elects a single active tab to transcribe at a time, per user. Tabs talk over a BroadcastChannel: a
+ * tab claims the role and takes it unless the active tab or an earlier claim objects in time, and
+ * the active tab sends heartbeats and its transcript. Tabs that follow it mirror the transcript, and
+ * one of them takes over when the active tab closes. Without BroadcastChannel every tab is active
+ */
+export class TabCoordinator {
+    readonly tabId: string;
+    private readonly log: Logger;
+    private readonly channel: BroadcastChannel | null;
+    private active: boolean;
+    private activeTabId: string | null;
+    private lastHeartbeat: number;
+    // This tab's pending claim, dropped when another tab objects
+    private claim: { at: number } | null;
+    private follower: TabFollower | null;
+    private heartbeatInterval: ReturnType<typeof setInterval> | null;
+
+    constructor(options: TabCoordinatorOptions = {}) {
+        this.tabId = generateUUID();
+        this.log = options.log || (() => {});
+        this.channel = typeof BroadcastChannel === 'undefined'
+            ? null
+            : new BroadcastChannel(options.key ? `${CHANNEL_NAME}:${options.key}` : CHANNEL_NAME);
+        this.active = false;
+        this.activeTabId = null;
+        this.lastHeartbeat = 0;
+        this.claim = null;
+        this.follower = null;
+        this.heartbeatInterval = null;
+
+        if (this.channel) {
+            this.channel.onmessage = (event: MessageEvent<TabMessage>) => this._handleMessage(event.data);
+            this.heartbeatInterval = setInterval(() => this._heartbeat(), HEARTBEAT_INTERVAL);
+        }
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', this._handlePageHide);
+        }
+    }
+
+    isActive(): boolean {
+        return this.active;
+    }
+
+    /**
+     * Makes this the active tab. Resolves with false when another tab is active or claimed it first
+     */
+    async acquire(): Promise<boolean> {
+        if (this.active) return true;
+        if (!this.channel) {
+            this.active = true;
+            return true;
+        }
+        if (this.activeTabId) return false;
+
+        const claim = { at: Date.now() };
+        this.claim = claim;
+        this._post({ type: 'claim', tabId: this.tabId, at: claim.at });
+        await new Promise(resolve => setTimeout(resolve, CLAIM_TIMEOUT));
+
+        if (this.claim !== claim || this.activeTabId) return false;
+        this.claim = null;
+        this.active = true;
+        this.log('This tab is now the active tab');
+        this._post({ type: 'heartbeat', tabId: this.tabId });
+        return true;
+    }
+
+    /**
+     * Gives up the active role. With handover, a following tab carries on the transcription
+     */
+    release(handover = false): void {
+        if (!this.active) return;
+
+        this.active = false;
+        this._post({ type: 'release', tabId: this.tabId, handover });
+    }
+
+    /**
+     * Mirrors the active tab's transcript, and takes over when the active tab closes
+     */
+    follow(follower: TabFollower): void {
+        this.follower = follower;
+    }
+
+    unfollow(): void {
+        this.follower = null;
+    }
+
+    // Shares the active tab's transcript with the tabs following it
+    publish(data: SharedTranscriptData): void {
+        if (!this.active) return;
+
+        this._post({
+            type: 'transcript',
+            tabId: this.tabId,
+            data: { transcript: data.transcript, interimTranscript: data.interimTranscript, turns: data.turns }
+        });
+    }
+
+    close(): void {
+        this.release();
+        this.follower = null;
+        if (this.heartbeatInterval) {
+            clearInterval(this.heartbeatInterval);
+            this.heartbeatInterval = null;
+        }
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('pagehide', this._handlePageHide);
+        }
+        this.channel?.close();
+    }
+
+    private _post(message: TabMessage): void {
+        this.channel?.postMessage(message);
+    }
+
+    private _handleMessage(message: TabMessage): void {
+        switch (message.type) {
+            case 'claim':
+                if (this.active) {
+                    // Object to the claim
+                    this._post({ type: 'heartbeat', tabId: this.tabId });
+                } else if (this.claim && (message.at < this.claim.at
+                    || (message.at === this.claim.at && message.tabId < this.tabId))) {
+                    // The earlier claim wins
+                    this.claim = null;
+                }
+                break;
+            case 'heartbeat':
+            case 'transcript':
+                this.activeTabId = message.tabId;
+                this.lastHeartbeat = Date.now();
+                if (message.type === 'transcript') {
+                    this.follower?.onTranscript(message.data);
+                }
+                break;
+            case 'release':
+                if (message.tabId !== this.activeTabId) break;
+                this.activeTabId = null;
+                if (message.handover) {
+                    this._takeOver();
+                } else if (this.follower) {
+                    const follower = this.follower;
+                    this.follower = null;
+                    follower.onActiveTabStopped();
+                }
+                break;
+        }
+    }
+
+    private _heartbeat(): void {
+        if (this.active) {
+            this._post({ type: 'heartbeat', tabId: this.tabId });
+        } else if (this.activeTabId && Date.now() - this.lastHeartbeat > HEARTBEAT_TIMEOUT) {
+            // Closed without a release, e.g. the tab or browser crashed
+            this.log('The active tab stopped responding');
+            this.activeTabId = null;
+            this._takeOver();
+        }
+    }
+
+    // Followers all claim the active role, and the one with the earliest claim carries on
+    private async _takeOver(): Promise<void> {
+        const follower = this.follower;
+        if (!follower) return;
+
+        if (!await this.acquire()) return;
+        if (this.follower !== follower) {
+            // Stopped following while claiming
+            this.release();
+            return;
+        }
+        this.follower = null;
+        follower.onHandover();
+    }
+
+    // Also when the page goes into the back/forward cache, where it can't keep the role up. The
+    // client stops its session in that case, see AWSTranscribeClient
+    private _handlePageHide = (): void => {
+        this.release(true);
+    };
+}
@@ -0,0 +1,1348 @@
+import {
+    TranscribeStreamingClient,
+    StartStreamTranscriptionCommand,
+    StartMedicalStreamTranscriptionCommand,
+    ContentIdentificationType,
+    ContentRedactionType,
+    LanguageCode,
+    MediaEncoding,
+    PartialResultsStability,
+    Specialty,
+    StartStreamTranscriptionCommandInput,
+    Type,
+    VocabularyFilterMethod
+} from "@aws-sdk/client-transcribe-streaming";
+import { RMSVoiceActivityDetector, VoiceActivityDetector } from './voice-activity-detector';
+import { VoiceActivityGate } from './voice-activity-gate';
+import { PCMRingBuffer } from './pcm-ring-buffer';
+import { CredentialsError, QuotaExceededError, TranscribeError, toTranscribeError } from './errors';
+import { PiiEntityType, TranscribeResult, TranscriptSegment, toTranscriptSegment } from './transcript-segment';
+import { SpeakerTurn, TranscriptAssembler } from './transcript-assembler';
+import { CredentialStore, MemoryCredentialStore } from './credential-store';
+import { UsageMeter } from './usage-meter';
+
+// Define interfaces
+export interface TranscribeCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken: string;
+    expiration: Date;
+    reservedMinutes?: number;
+}
+
+export type TranscribeCredentialsProvider = (minutesUsed: number) => Promise<TranscribeCredentials> | null;
+
+export type Logger = (message: string, ...args: unknown[]) => void;
+
+export interface TranscriptData {
+    transcript: string;
+    interimTranscript: string;
+    // The finalized transcript split by speaker, see showSpeakerLabel
+    turns: SpeakerTurn[];
+    resetTranscript: () => void;
+}
+
+export interface ReconnectPolicy {
+    maxAttempts?: number;
+    initialDelay?: number;
+    maxDelay?: number;
+    backoffFactor?: number;
+}
+
+export interface RolloverPolicy {
+    maxStreamDuration?: number;
+    lead?: number;
+    overlapDuration?: number;
+}
+
+export interface ReconnectingEvent {
+    attempt: number;
+    maxAttempts: number;
+    delay: number;
+}
+
+// Custom vocabularies, vocabulary filters and language models are created in the Transcribe console
+// or API, in the same region and for the same language as the session
+export interface TranscribeVocabularyOptions {
+    vocabularyName?: string;
+    vocabularyFilterName?: string;
+    // 'mask' replaces filtered words with ***, 'remove' drops them and 'tag' keeps them but marks them
+    // with vocabularyFilterMatch in the results. Transcribe defaults to 'mask'
+    vocabularyFilterMethod?: VocabularyFilterMethod;
+    languageModelName?: string;
+}
+
+// Lets Transcribe identify the spoken language among languageOptions instead of using languageCode
+export interface TranscribeLanguageIdentificationOptions {
+    // Identifies the language once per stream
+    identifyLanguage?: boolean;
+    // Identifies the language of every result, for speakers who switch languages
+    identifyMultipleLanguages?: boolean;
+    // The languages the audio may be in, at least two of them
+    languageOptions?: Array<LanguageCode | string>;
+    // One of languageOptions, favored while Transcribe is still unsure
+    preferredLanguage?: LanguageCode | string;
+}
+
+export interface TranscribePartialResultsOptions {
+    // Set to false to only receive final results. Transcribe still sends partials, they are dropped
+    partialResults?: boolean;
+    // Lets Transcribe mark words of partial results as stable, so they won't change anymore
+    enablePartialResultsStabilization?: boolean;
+    // 'high' settles words sooner, 'low' waits longer and is more accurate
+    partialResultsStability?: PartialResultsStability;
+    // Limits the onTranscript calls for partial results, e.g. 4 for at most four per second. Final
+    // results are always reported right away. 0 reports every partial
+    maxInterimUpdatesPerSecond?: number;
+}
+
+// Identifies personally identifiable information (PII) in the results, reported as entities of each
+// result. Redaction also replaces it in the transcript, e.g. with [NAME]. Use one or the other
+export interface TranscribeContentIdentificationOptions {
+    contentIdentificationType?: ContentIdentificationType;
+    contentRedactionType?: ContentRedactionType;
+    // The kinds of PII to identify or redact. All of them by default
+    piiEntityTypes?: Array<PiiEntityType | 'ALL'>;
+}
+
+// Switches the session to Transcribe Medical, which only supports US English (en-US). Partial result
+// stabilization, language identification, vocabulary filters, language models and PII identification
+// don't apply to it
+export interface TranscribeMedicalOptions {
+    specialty: Specialty;
+    // 'DICTATION' for a clinician dictating notes, 'CONVERSATION' for a clinician talking with a patient
+    type: Type;
+    // Identifies protected health information, reported as entities of each result
+    contentIdentification?: boolean;
+}
+
+export interface LanguageDetectedEvent {
+    languageCode: string;
+    // 0-1, or null when Transcribe didn't report one
+    confidence: number | null;
+    channelId: string | null;
+}
+
+export interface QuotaWarningEvent {
+    reservedMinutes: number;
+    minutesUsed: number;
+    minutesRemaining: number;
+}
+
+export interface TranscribeSessionOptions extends
+    TranscribeVocabularyOptions,
+    TranscribeLanguageIdentificationOptions,
+    TranscribePartialResultsOptions,
+    TranscribeContentIdentificationOptions {
+    region?: string;
+    languageCode?: LanguageCode | string;
+    sampleRate?: number;
+    // Number of interleaved channels in the PCM passed to send()
+    channelCount?: number;
+    showSpeakerLabel?: boolean;
+    medical?: TranscribeMedicalOptions;
+    credentialsProvider: TranscribeCredentialsProvider;
+    // Where credentials are kept between sessions. Defaults to memory only
+    credentialStore?: CredentialStore;
+    // Keeps the credentials of different users or tenants apart, e.g. a user id
+    credentialsKey?: string;
+    // Counts the audio sent, for credentialsProvider's minutesUsed and the reservedMinutes quota.
+    // Defaults to a meter keyed by credentialsKey
+    usageMeter?: UsageMeter;
+    // How many of the reserved minutes may remain when onQuotaWarning is called
+    quotaWarningMinutes?: number;
+    generateSessionId?: () => string;
+    reconnect?: ReconnectPolicy;
+    rollover?: RolloverPolicy;
+    log?: Logger;
+    onTranscript?: (data: TranscriptData) => void;
+    onResult?: (segment: TranscriptSegment) => void;
+    // Called when language identification settles on a language, or a new one is spoken
+    onLanguageDetected?: (event: LanguageDetectedEvent) => void;
+    // Called once per reservation when its remaining minutes drop to quotaWarningMinutes. Once they
+    // run out the stream is ended and onError reports a QuotaExceededError
+    onQuotaWarning?: (event: QuotaWarningEvent) => void;
+    // Called once the stream is lost for good. The session is closed afterwards
+    onError?: (error: TranscribeError) => void;
+    onReconnecting?: (event: ReconnectingEvent) => void;
+    onReconnected?: (attempt: number) => void;
+}
+
+type TranscribeSessionConfig = Required<Omit<
+    TranscribeSessionOptions,
+    | keyof TranscribeVocabularyOptions
+    | keyof TranscribeLanguageIdentificationOptions
+    | keyof TranscribePartialResultsOptions
+    | keyof TranscribeContentIdentificationOptions
+    | 'medical'
+    | 'reconnect'
+    | 'rollover'
+>> & {
+    contentIdentification: TranscribeContentIdentificationOptions;
+    medical: TranscribeMedicalOptions | null;
+    vocabulary: TranscribeVocabularyOptions;
+    languageIdentification: TranscribeLanguageIdentificationOptions;
+    partialResults: Required<TranscribePartialResultsOptions>;
+    reconnect: Required<ReconnectPolicy>;
+    rollover: Required<RolloverPolicy>;
+};
+
+export interface TranscribeAudioOptions extends Omit<TranscribeSessionOptions, 'log' | 'onError'> {
+    vadThreshold?: number;
+    voiceActivityDetector?: VoiceActivityDetector;
+    preRollDuration?: number;
+    hangoverDuration?: number;
+    // Frames per chunk sent to Transcribe
+    bufferSize?: number;
+    // Sends the audio at this multiple of real time. By default chunks are sent as they arrive
+    speed?: number;
+    // Holds back silence with the voice activity gate, as during live capture. Less audio is billed, but
+    // result times then leave out the silence held back. Defaults to true, and to false for files
+    skipSilence?: boolean;
+    debug?: boolean;
+}
+
+export interface TranscribeAudioResult {
+    transcript: string;
+    segments: TranscriptSegment[];
+    turns: SpeakerTurn[];
+}
+
+interface TranscriptionResult {
+    TranscriptEvent?: {
+        Transcript?: {
+            Results?: TranscribeResult[];
+        };
+    };
+}
+
+// A single StartStreamTranscription request and the audio stream feeding it
+interface TranscribeConnection {
+    client: TranscribeStreamingClient;
+    audioStream: ReadableStream;
+    response: unknown;
+    openedAt: number;
+    expiration: number;
+    // Counted in frames, i.e. one sample per channel
+    samplesSent: number;
+    // Position of the connection's first sample on the session timeline (seconds)
+    timeOffset: number;
+    // Results are only accepted when they start inside this window (seconds of audio sent on this
+    // connection), so the audio two connections share during a rollover isn't transcribed twice
+    resultsFrom: number;
+    resultsUntil: number;
+}
+
+// Defaults shared by the browser client and transcribeAudio
+export const VAD_THRESHOLD = 0.02; // Adjust this threshold based on testing
+export const BUFFER_SIZE = 4096; // Buffer size for audio processing
+export const SAMPLE_RATE = 16000; // Rate of the PCM sent to Transcribe; use 8000 for telephony audio
+export const PRE_ROLL_DURATION = 500; // Audio kept from before speech is detected (ms)
+export const HANGOVER_DURATION = 300; // Audio still sent after the last voiced buffer (ms)
+const REPLAY_BUFFER_DURATION = 30000; // Audio kept while reconnecting, replayed to the new stream (ms)
+
+// Defaults for reconnecting dropped Transcribe streams
+const RECONNECT_MAX_ATTEMPTS = 5;
+const RECONNECT_INITIAL_DELAY = 500; // ms
+const RECONNECT_MAX_DELAY = 10000; // ms
+const RECONNECT_BACKOFF_FACTOR = 2;
+
+// Defaults for rolling over to a new stream before the current one hits a limit
+const MAX_STREAM_DURATION = 4 * 60 * 60 * 1000; // AWS ends streaming sessions after four hours (ms)
+const ROLLOVER_LEAD = 60000; // How long before a stream or its credentials expire to roll over (ms)
+const ROLLOVER_OVERLAP_DURATION = 3000; // Audio sent to both the old and the new stream (ms)
+const ROLLOVER_MIN_INTERVAL = 10000; // Never roll over more often than this, even with short-lived credentials (ms)
+const ROLLOVER_RETRY_DELAY = 5000; // Delay before retrying a failed rollover (ms)
+const DRAIN_TIMEOUT = 10000; // Time a replaced stream gets to deliver its last results (ms)
+
+// Defaults for getting credentials from the credentials provider
+const CREDENTIALS_REFRESH_WINDOW = 5 * 60 * 1000; // Stored credentials expiring sooner are refreshed (ms)
+const CREDENTIALS_RETRY: Required<ReconnectPolicy> = {
+    maxAttempts: 3, // Provider calls, including the first
+    initialDelay: 1000, // ms
+    maxDelay: 5000, // ms
+    backoffFactor: 2
+};
+
+const QUOTA_WARNING_MINUTES = 1; // Reserved minutes remaining when onQuotaWarning is called
+
+// Storage keys. Versions before the credential stores kept credentials as plain JSON in localStorage
+// under the legacy key, which the current one can't collide with
+const STORAGE_KEY = 'aws_transcribe_credentials_v2';
+const LEGACY_STORAGE_KEY = 'aws_transcribe_credentials';
+let legacyCredentialsRemoved = false;
+
+// Deletes the plaintext credentials of an earlier version, the first time credentials are loaded
+const removeLegacyCredentials = (): void => {
+    if (legacyCredentialsRemoved) return;
+    legacyCredentialsRemoved = true;
+    try {
+        if (typeof localStorage !== 'undefined') localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch {
+        // Storage blocked, e.g. by privacy settings
+    }
+};
+
+// Custom ReadableStream that works in Safari
+class ReadableStream {
+    private listeners: Array<{ resolve: (value: { value: unknown; done: boolean }) => void }>;
+    private buffer: Array<unknown>;
+    private closed: boolean;
+
+    constructor() {
+        this.listeners = [];
+        this.buffer = [];
+        this.closed = false;
+    }
+
+    enqueue(chunk: unknown): void {
+        if (this.closed) return;
+
+        if (this.listeners.length > 0) {
+            // If there are listeners waiting, resolve them immediately
+            const listener = this.listeners.shift()!;
+            listener.resolve({ value: chunk, done: false });
+        } else {
+            // Otherwise, add to buffer
+            this.buffer.push(chunk);
+        }
+    }
+
+    close(): void {
+        this.closed = true;
+
+        // Resolve any pending requests with done
+        this.listeners.forEach(listener => {
+            listener.resolve({ value: undefined, done: true });
+        });
+        this.listeners = [];
+    }
+
+    [Symbol.asyncIterator]() {
+        return {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            next: (): Promise<{ value: any; done: boolean }> => {
+                if (this.closed && this.buffer.length === 0) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+
+                if (this.buffer.length > 0) {
+                    const chunk = this.buffer.shift();
+                    return Promise.resolve({ value: chunk, done: false });
+                }
+
+                // No data available, create a promise that will be resolved when data arrives
+                return new Promise(resolve => {
+                    this.listeners.push({ resolve });
+                });
+            }
+        };
+    }
+}
+
+interface AWSCredentialsOptions {
+    credentialsProvider: TranscribeCredentialsProvider;
+    store: CredentialStore;
+    key: string;
+    // Stored credentials expiring within this window are refreshed (ms)
+    refreshWindow: number;
+    getMinutesUsed: () => Promise<number>;
+    log: Logger;
+}
+
+// Providers may return the expiration as a string, e.g. straight from JSON, or omit it. A missing or
+// invalid expiration becomes an invalid date, which is treated as expired
+const normalizeCredentials = (credentials: TranscribeCredentials): TranscribeCredentials => ({
+    ...credentials,
+    expiration: new Date(credentials.expiration)
+});
+
+class AWSCredentials {
+    private readonly log: Logger;
+    private readonly credentialsProvider: TranscribeCredentialsProvider;
+    private readonly store: CredentialStore;
+    private readonly storageKey: string;
+    private readonly refreshWindow: number;
+    private readonly getMinutesUsed: () => Promise<number>;
+    // Provider call in progress, shared by everyone asking for credentials in the meantime
+    private pending: Promise<TranscribeCredentials> | null;
+    // Bumped by clear(), so credentials fetched before a logout aren't stored after it
+    private generation: number;
+
+    constructor(options: AWSCredentialsOptions) {
+        this.log = options.log;
+        this.credentialsProvider = options.credentialsProvider;
+        this.store = options.store;
+        this.storageKey = options.key ? `${STORAGE_KEY}:${options.key}` : STORAGE_KEY;
+        this.refreshWindow = options.refreshWindow;
+        this.getMinutesUsed = options.getMinutesUsed;
+        this.pending = null;
+        this.generation = 0;
+    }
+
+    async getCredentials(forceRefresh = false): Promise<TranscribeCredentials> {
+        if (!this.credentialsProvider) {
+            throw new Error('No credentials provider available');
+        }
+
+        const existingCreds = forceRefresh ? null : await this.loadStoredCredentials();
+        const expiresAt = existingCreds ? existingCreds.expiration.getTime() : NaN;
+        const remaining = isNaN(expiresAt) ? 0 : expiresAt - Date.now();
+        if (existingCreds && remaining > this.refreshWindow) {
+            this.log('Using existing credentials');
+            return existingCreds;
+        }
+
+        try {
+            return await this.fetchCredentials();
+        } catch (e) {
+            // Credentials about to expire still beat none, e.g. while the provider is briefly down
+            if (existingCreds && remaining > 0) {
+                this.log('Failed to refresh credentials, using existing credentials:', e);
+                return existingCreds;
+            }
+            throw e;
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.generation++;
+        this.pending = null;
+        await this.store.remove(this.storageKey);
+    }
+
+    private fetchCredentials(): Promise<TranscribeCredentials> {
+        if (!this.pending) {
+            const pending = this.requestCredentials();
+            this.pending = pending;
+            pending.then(
+                () => { if (this.pending === pending) this.pending = null; },
+                () => { if (this.pending === pending) this.pending = null; }
+            );
+        }
+        return this.pending;
+    }
+
+    // Calls the provider, retrying with backoff when it throws. A provider returning nothing isn't retried
+    private async requestCredentials(): Promise<TranscribeCredentials> {
+        const generation = this.generation;
+        let credentials: TranscribeCredentials | null;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                credentials = await this.credentialsProvider(await this.getMinutesUsed());
+                break;
+            } catch (e) {
+                if (attempt >= CREDENTIALS_RETRY.maxAttempts) throw e;
+
+                const delay = getReconnectDelay(CREDENTIALS_RETRY, attempt);
+                this.log(`Credentials provider failed, retrying in ${Math.round(delay)}ms:`, e);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+
+        if (!credentials) {
+            throw new Error('No credentials available');
+        }
+        credentials = normalizeCredentials(credentials);
+
+        if (generation === this.generation) {
+            try {
+                await this.store.set(this.storageKey, credentials);
+            } catch (e) {
+                // The credentials still work, they just have to be fetched again next time
+                this.log('Failed to store credentials:', e);
+            }
+        }
+        return credentials;
+    }
+
+    // Corrupt or undecryptable credentials are dropped, so new ones are fetched instead
+    private loadStoredCredentials = async (): Promise<TranscribeCredentials | null> => {
+        removeLegacyCredentials();
+        try {
+            const stored = await this.store.get(this.storageKey);
+            return stored && normalizeCredentials(stored);
+        } catch (e) {
+            this.log('Failed to load stored credentials, fetching new ones:', e);
+            await this.store.remove(this.storageKey).catch(() => {});
+            return null;
+        }
+    };
+}
+
+const createAudioEvent = (pcmData: Int16Array) => ({
+    AudioEvent: {
+        AudioChunk: new Uint8Array(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength)
+    }
+});
+
+// Values that aren't a positive number of milliseconds would roll over in a loop (0, NaN) or never
+// (Infinity), and AWS ends streams after four hours anyway
+const toMaxStreamDuration = (duration: number | undefined): number => {
+    if (duration === undefined || !Number.isFinite(duration) || duration <= 0) return MAX_STREAM_DURATION;
+    return Math.min(duration, MAX_STREAM_DURATION);
+};
+
+// The lead and overlap fall back to their defaults the same way. A lead of NaN would roll over in a
+// loop and keep stored credentials from being reused, and neither can be longer than the stream
+const toRolloverDuration = (duration: number | undefined, fallback: number, maxStreamDuration: number): number => {
+    if (duration === undefined || !Number.isFinite(duration) || duration < 0) return fallback;
+    return Math.min(duration, maxStreamDuration);
+};
+
+const getReconnectDelay = (policy: Required<ReconnectPolicy>, attempt: number): number => {
+    const delay = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1));
+    // Equal jitter: keep half of the backoff and randomize the rest so clients don't retry in lockstep
+    return delay / 2 + Math.random() * delay / 2;
+};
+
+export const generateUUID = (): string => {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+        const r = Math.random() * 16 | 0;
+        const v = c === 'x' ? r : (r & 0x3 | 0x8);
+        return v.toString(16);
+    });
+};
+
+/**
+ * The Transcribe side of a transcription: opens the streams, reconnects and rolls over, and assembles
+ * the results into a transcript. It is fed 16-bit PCM and has no dependency on browser APIs, so the
+ * browser client and the Node entry point share it. A session can be opened again after close()
+ */
+export class TranscribeSession {
+    readonly transcriptAssembler: TranscriptAssembler;
+    private config: TranscribeSessionConfig;
+    private awsCredentials: AWSCredentials;
+    private isOpen: boolean;
+    private isEnding: boolean;
+    private generation: number;
+    private connection: TranscribeConnection | null;
+    private drainingConnection: TranscribeConnection | null;
+    private overlapSamplesRemaining: number;
+    private rolloverTimeout: ReturnType<typeof setTimeout> | null;
+    // Ends the overlap of a rollover before the old stream hits its limit
+    private finishRolloverTimeout: ReturnType<typeof setTimeout> | null;
+    // The old stream of a finished rollover, delivering its last results until the timeout
+    private closingConnection: { connection: TranscribeConnection; timeout: ReturnType<typeof setTimeout> } | null;
+    private sessionSamples: number;
+    private replayBuffer: PCMRingBuffer;
+    // Last language reported through onLanguageDetected, per channel
+    private detectedLanguages: Map<string | null, string>;
+    private lastTranscriptUpdate: number;
+    private transcriptUpdateTimeout: ReturnType<typeof setTimeout> | null;
+    // Credentials whose reservation onQuotaWarning was called for
+    private quotaWarned: string | null;
+    // Set once the reserved minutes are used up, reported when the stream finished
+    private quotaError: QuotaExceededError | null;
+    private ended: { resolve: () => void; reject: (error: TranscribeError) => void } | null;
+
+    constructor(options: TranscribeSessionOptions) {
+        const maxStreamDuration = toMaxStreamDuration(options.rollover?.maxStreamDuration);
+        this.config = {
+            region: options.region || "us-east-1",
+            languageCode: options.languageCode || LanguageCode.EN_US,
+            sampleRate: options.sampleRate || SAMPLE_RATE,
+            channelCount: options.channelCount || 1,
+            showSpeakerLabel: options.showSpeakerLabel ?? false,
+            medical: options.medical || null,
+            credentialsProvider: options.credentialsProvider,
+            credentialStore: options.credentialStore || new MemoryCredentialStore(),
+            credentialsKey: options.credentialsKey || '',
+            usageMeter: options.usageMeter || new UsageMeter({ key: options.credentialsKey }),
+            quotaWarningMinutes: options.quotaWarningMinutes ?? QUOTA_WARNING_MINUTES,
+            generateSessionId: options.generateSessionId || generateUUID,
+            log: options.log || (() => {}),
+            onTranscript: options.onTranscript || (() => {}),
+            onResult: options.onResult || (() => {}),
+            onLanguageDetected: options.onLanguageDetected || (() => {}),
+            onQuotaWarning: options.onQuotaWarning || (() => {}),
+            onError: options.onError || (() => {}),
+            onReconnecting: options.onReconnecting || (() => {}),
+            onReconnected: options.onReconnected || (() => {}),
+            vocabulary: {
+                vocabularyName: options.vocabularyName,
+                vocabularyFilterName: options.vocabularyFilterName,
+                vocabularyFilterMethod: options.vocabularyFilterMethod,
+                languageModelName: options.languageModelName
+            },
+            languageIdentification: {
+                identifyLanguage: options.identifyLanguage,
+                identifyMultipleLanguages: options.identifyMultipleLanguages,
+                languageOptions: options.languageOptions,
+                preferredLanguage: options.preferredLanguage
+            },
+            contentIdentification: {
+                contentIdentificationType: options.contentIdentificationType,
+                contentRedactionType: options.contentRedactionType,
+                piiEntityTypes: options.piiEntityTypes
+            },
+            partialResults: {
+                partialResults: options.partialResults ?? true,
+                enablePartialResultsStabilization: options.enablePartialResultsStabilization ?? true,
+                partialResultsStability: options.partialResultsStability || PartialResultsStability.HIGH,
+                maxInterimUpdatesPerSecond: options.maxInterimUpdatesPerSecond ?? 0
+            },
+            reconnect: {
+                maxAttempts: options.reconnect?.maxAttempts ?? RECONNECT_MAX_ATTEMPTS,
+                initialDelay: options.reconnect?.initialDelay ?? RECONNECT_INITIAL_DELAY,
+                maxDelay: options.reconnect?.maxDelay ?? RECONNECT_MAX_DELAY,
+                backoffFactor: options.reconnect?.backoffFactor ?? RECONNECT_BACKOFF_FACTOR
+            },
+            rollover: {
+                maxStreamDuration,
+                lead: toRolloverDuration(options.rollover?.lead, ROLLOVER_LEAD, maxStreamDuration),
+                overlapDuration: toRolloverDuration(
+                    options.rollover?.overlapDuration, ROLLOVER_OVERLAP_DURATION, maxStreamDuration
+                )
+            }
+        };
+
+        this.awsCredentials = new AWSCredentials({
+            credentialsProvider: this.config.credentialsProvider,
+            store: this.config.credentialStore,
+            key: this.config.credentialsKey,
+            // Rollovers ask for credentials that outlast the current ones by at least the lead
+            refreshWindow: Math.max(CREDENTIALS_REFRESH_WINDOW, this.config.rollover.lead),
+            getMinutesUsed: () => this.config.usageMeter.getMinutesUsed(),
+            log: this.config.log
+        });
+        this.transcriptAssembler = new TranscriptAssembler();
+        this.isOpen = false;
+        this.isEnding = false;
+        this.generation = 0;
+        this.connection = null;
+        this.drainingConnection = null;
+        this.overlapSamplesRemaining = 0;
+        this.rolloverTimeout = null;
+        this.finishRolloverTimeout = null;
+        this.closingConnection = null;
+        this.sessionSamples = 0;
+        this.replayBuffer = new PCMRingBuffer(0);
+        this.detectedLanguages = new Map();
+        this.lastTranscriptUpdate = 0;
+        this.transcriptUpdateTimeout = null;
+        this.quotaWarned = null;
+        this.quotaError = null;
+        this.ended = null;
+    }
+
+    /**
+     * Opens the first Transcribe stream. Audio sent while it opens is buffered and replayed to it
+     */
+    async open(): Promise<void> {
+        const generation = ++this.generation;
+        this.isOpen = true;
+        this.isEnding = false;
+        this.replayBuffer = new PCMRingBuffer(this._bufferCapacity(REPLAY_BUFFER_DURATION));
+        this.sessionSamples = 0;
+        this.detectedLanguages.clear();
+        this.transcriptAssembler.clearPartials();
+
+        const connection = await this._openConnection();
+        if (generation !== this.generation) {
+            this._closeConnection(connection);
+            return;
+        }
+        this._activateConnection(connection);
+    }
+
+    /**
+     * Sends interleaved PCM to the active stream, or buffers it while no stream is open
+     */
+    send(pcmData: Int16Array): void {
+        if (!this.isOpen || this.quotaError) return;
+
+        this.sessionSamples += pcmData.length / this.config.channelCount;
+
+        // Hold on to speech captured while no stream is open (starting or reconnecting), so it can be
+        // sent as soon as one is
+        if (!this.connection) {
+            this.replayBuffer.push(pcmData);
+            return;
+        }
+
+        this._sendToConnection(this.connection, pcmData);
+
+        // During a rollover the previous stream keeps receiving audio until the overlap is covered
+        if (this.drainingConnection && this.overlapSamplesRemaining > 0) {
+            this._sendToConnection(this.drainingConnection, pcmData);
+            this.overlapSamplesRemaining -= pcmData.length / this.config.channelCount;
+            if (this.overlapSamplesRemaining <= 0) {
+                this._finishRollover();
+            }
+        }
+    }
+
+    /**
+     * Ends the audio and resolves once Transcribe delivered the last results, waiting for a reconnect
+     * if one is in progress. Rejects when the stream fails for good
+     */
+    end(): Promise<void> {
+        if (!this.isOpen) return Promise.resolve();
+
+        return new Promise((resolve, reject) => {
+            this.ended = { resolve, reject };
+            this.isEnding = true;
+            if (this.connection) {
+                this._endConnection(this.connection);
+            }
+        });
+    }
+
+    /**
+     * Closes the streams right away and cancels a pending reconnect or rollover
+     */
+    close(): void {
+        this.generation++;
+        this.isOpen = false;
+        this.isEnding = false;
+        this.replayBuffer.clear();
+        this._closeAllConnections();
+        this._closeDrainedConnection();
+        this._cancelTranscriptUpdate();
+        this.quotaError = null;
+        this.config.usageMeter.save();
+
+        const ended = this.ended;
+        this.ended = null;
+        ended?.resolve();
+    }
+
+    /**
+     * Removes the stored credentials of this session's credentialsKey, e.g. on logout. The next stream
+     * gets new ones from the credentials provider
+     */
+    clearCredentials(): Promise<void> {
+        return this.awsCredentials.clear();
+    }
+
+    private _handleResult(segment: TranscriptSegment): void {
+        this.config.onResult(this.transcriptAssembler.add(segment));
+
+        // Partials may still switch language, so only final results are reported
+        if (segment.isPartial || !segment.languageCode) return;
+        if (this.detectedLanguages.get(segment.channelId) === segment.languageCode) return;
+
+        this.detectedLanguages.set(segment.channelId, segment.languageCode);
+        this.config.onLanguageDetected({
+            languageCode: segment.languageCode,
+            confidence: segment.languageConfidence,
+            channelId: segment.channelId
+        });
+    }
+
+    private _emitTranscript(): void {
+        this._cancelTranscriptUpdate();
+        this.lastTranscriptUpdate = Date.now();
+        this.config.onTranscript({
+            transcript: this.transcriptAssembler.getTranscript(),
+            interimTranscript: this.transcriptAssembler.getInterimTranscript(),
+            turns: this.transcriptAssembler.getTurns(),
+            resetTranscript: () => { this.transcriptAssembler.clearSegments(); }
+        });
+    }
+
+    // Updates with new final text go out right away. Partial-only updates are throttled, keeping the
+    // latest one for the end of the interval
+    private _scheduleTranscriptUpdate(hasFinal: boolean): void {
+        const rate = this.config.partialResults.maxInterimUpdatesPerSecond;
+        const delay = rate > 0 ? this.lastTranscriptUpdate + 1000 / rate - Date.now() : 0;
+
+        if (hasFinal || delay <= 0) {
+            this._emitTranscript();
+        } else if (!this.transcriptUpdateTimeout) {
+            this.transcriptUpdateTimeout = setTimeout(() => this._emitTranscript(), delay);
+        }
+    }
+
+    private _cancelTranscriptUpdate(): void {
+        if (this.transcriptUpdateTimeout) {
+            clearTimeout(this.transcriptUpdateTimeout);
+            this.transcriptUpdateTimeout = null;
+        }
+    }
+
+    // Either a fixed language, or the languages to identify. Custom vocabularies and filters are named
+    // per language when identifying, so they go in the list parameters, comma-separated
+    private _languageParameters(): Partial<StartStreamTranscriptionCommandInput> {
+        const { vocabulary, languageIdentification } = this.config;
+
+        if (!languageIdentification.identifyLanguage && !languageIdentification.identifyMultipleLanguages) {
+            return {
+                LanguageCode: this.config.languageCode as LanguageCode,
+                VocabularyName: vocabulary.vocabularyName,
+                VocabularyFilterName: vocabulary.vocabularyFilterName
+            };
+        }
+
+        return {
+            // The two modes are mutually exclusive; multiple languages covers single language audio too
+            ...(languageIdentification.identifyMultipleLanguages
+                ? { IdentifyMultipleLanguages: true }
+                : { IdentifyLanguage: true }),
+            LanguageOptions: languageIdentification.languageOptions?.join(','),
+            PreferredLanguage: languageIdentification.preferredLanguage as LanguageCode | undefined,
+            VocabularyNames: vocabulary.vocabularyName,
+            VocabularyFilterNames: vocabulary.vocabularyFilterName
+        };
+    }
+
+    // Ring buffer capacity in samples for the given duration (ms) of interleaved audio
+    private _bufferCapacity(duration: number): number {
+        return Math.round(this.config.sampleRate * duration / 1000) * this.config.channelCount;
+    }
+
+    private async _createTranscribeClient(forceRefresh = false): Promise<{
+        client: TranscribeStreamingClient;
+        expiration: number;
+    }> {
+        let credentials: TranscribeCredentials;
+        try {
+            credentials = await this.awsCredentials.getCredentials(forceRefresh);
+            // The provider may reserve more minutes once the current credentials' are used up
+            if (this._isReservationExhausted(credentials)) {
+                credentials = await this.awsCredentials.getCredentials(true);
+                // Warn again before the new reservation runs out, even with the same credentials
+                this.quotaWarned = null;
+            }
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new CredentialsError('CREDENTIALS_FAILED', `Failed to get credentials: ${errorMessage}`, { cause: error });
+        }
+        this.config.usageMeter.reserve(credentials.accessKeyId, credentials.reservedMinutes);
+
+        const client = new TranscribeStreamingClient({
+            region: this.config.region,
+            credentials: {
+                accessKeyId: credentials.accessKeyId,
+                secretAccessKey: credentials.secretAccessKey,
+                sessionToken: credentials.sessionToken,
+            },
+        });
+
+        // Providers may omit the expiration, in which case only the stream duration limit applies
+        const expiration = credentials.expiration ? new Date(credentials.expiration).getTime() : NaN;
+        return { client, expiration: isNaN(expiration) ? Infinity : expiration };
+    }
+
+    private _sendToConnection(connection: TranscribeConnection, pcmData: Int16Array): void {
+        // Send a properly formatted AudioEvent to our custom stream
+        connection.audioStream.enqueue(createAudioEvent(pcmData));
+        connection.samplesSent += pcmData.length / this.config.channelCount;
+
+        // AWS bills every stream for the audio it receives, so replays and rollover overlaps count too
+        this.config.usageMeter.record(pcmData.length / this.config.channelCount / this.config.sampleRate);
+        this._checkQuota();
+    }
+
+    private _isReservationExhausted(credentials: TranscribeCredentials): boolean {
+        const reservation = this.config.usageMeter.getReservation();
+        return reservation?.credentialsId === credentials.accessKeyId && reservation.minutesRemaining <= 0;
+    }
+
+    private _checkQuota(): void {
+        const reservation = this.config.usageMeter.getReservation();
+        if (!reservation || this.quotaError) return;
+
+        if (reservation.minutesRemaining <= 0) {
+            // End the audio like end() does, so Transcribe still finalizes what it received
+            this.quotaError = new QuotaExceededError(`The ${reservation.reservedMinutes} reserved minutes are used up`);
+            this.config.log('Ending the stream:', this.quotaError.message);
+            this.isEnding = true;
+            if (this.connection) {
+                this._endConnection(this.connection);
+            }
+        } else if (reservation.minutesRemaining <= this.config.quotaWarningMinutes
+            && this.quotaWarned !== reservation.credentialsId) {
+            this.quotaWarned = reservation.credentialsId;
+            this.config.onQuotaWarning({
+                reservedMinutes: reservation.reservedMinutes,
+                minutesUsed: reservation.minutesUsed,
+                minutesRemaining: reservation.minutesRemaining
+            });
+        }
+    }
+
+    // Starts a Transcribe or Transcribe Medical stream fed by audioStream
+    private _startStream(client: TranscribeStreamingClient, audioStream: ReadableStream): Promise<unknown> {
+        const { medical, partialResults, vocabulary, contentIdentification } = this.config;
+        const parameters = {
+            MediaEncoding: MediaEncoding.PCM,
+            MediaSampleRateHertz: this.config.sampleRate,
+            AudioStream: audioStream,
+            ShowSpeakerLabel: this.config.showSpeakerLabel,
+            ...(this.config.channelCount > 1 && {
+                EnableChannelIdentification: true,
+                NumberOfChannels: this.config.channelCount
+            }),
+            SessionId: this.config.generateSessionId()
+        };
+
+        if (medical) {
+            return client.send(new StartMedicalStreamTranscriptionCommand({
+                ...parameters,
+                LanguageCode: this.config.languageCode as LanguageCode,
+                VocabularyName: vocabulary.vocabularyName,
+                Specialty: medical.specialty,
+                Type: medical.type,
+                ...(medical.contentIdentification && { ContentIdentificationType: 'PHI' })
+            }));
+        }
+
+        return client.send(new StartStreamTranscriptionCommand({
+            ...parameters,
+            ...this._languageParameters(),
+            VocabularyFilterMethod: vocabulary.vocabularyFilterMethod,
+            LanguageModelName: vocabulary.languageModelName,
+            ContentIdentificationType: contentIdentification.contentIdentificationType,
+            ContentRedactionType: contentIdentification.contentRedactionType,
+            PiiEntityTypes: contentIdentification.piiEntityTypes?.join(','),
+            ...(partialResults.enablePartialResultsStabilization && {
+                EnablePartialResultsStabilization: true,
+                PartialResultsStability: partialResults.partialResultsStability
+            })
+        }));
+    }
+
+    // Opens a Transcribe stream. Used on open, on reconnect and for rollovers
+    private async _openConnection(forceRefresh = false): Promise<TranscribeConnection> {
+        // Create AWS Transcribe client
+        this.config.log('Creating transcribe client...');
+        const { client, expiration } = await this._createTranscribeClient(forceRefresh);
+        const audioStream = new ReadableStream();
+
+        try {
+            // Start AWS Transcribe streaming
+            this.config.log('Sending transcribe command...');
+            const response = await this._startStream(client, audioStream);
+            this.config.log('Transcribe stream started');
+
+            return {
+                client,
+                audioStream,
+                response,
+                openedAt: Date.now(),
+                expiration,
+                samplesSent: 0,
+                timeOffset: 0,
+                resultsFrom: 0,
+                resultsUntil: Infinity
+            };
+        } catch (error: unknown) {
+            audioStream.close();
+            client.destroy();
+            throw error;
+        }
+    }
+
+    // Makes a freshly opened connection the active one and flushes audio captured in the meantime
+    private _activateConnection(connection: TranscribeConnection): void {
+        this.connection = connection;
+        const replay = this.replayBuffer.drain();
+        const replayedSamples = replay.reduce((total, chunk) => total + chunk.length, 0) / this.config.channelCount;
+        connection.timeOffset = (this.sessionSamples - replayedSamples) / this.config.sampleRate;
+        replay.forEach(chunk => this._sendToConnection(connection, chunk));
+
+        // Start processing results NOTE: THIS SHOULD NOT BE AWAITED
+        this._processTranscriptionResults(connection);
+
+        if (this.isEnding) {
+            this._endConnection(connection);
+        } else {
+            this._scheduleRollover(connection);
+        }
+    }
+
+    // Ends the audio of the active stream, so Transcribe finalizes what it received and closes it
+    private _endConnection(connection: TranscribeConnection): void {
+        if (this.rolloverTimeout) {
+            clearTimeout(this.rolloverTimeout);
+            this.rolloverTimeout = null;
+        }
+        if (this.drainingConnection) {
+            this._finishRollover();
+        }
+        connection.audioStream.close();
+    }
+
+    private _closeConnection(connection: TranscribeConnection | null): void {
+        if (!connection) return;
+
+        // Close custom stream
+        try {
+            connection.audioStream.close();
+        } catch (error) {
+            this.config.log('Error closing custom stream:', error);
+        }
+
+        // Clean up transcribe client
+        try {
+            connection.client.destroy();
+        } catch (error) {
+            this.config.log('Error destroying transcribe client:', error);
+        }
+    }
+
+    private _closeAllConnections(): void {
+        if (this.rolloverTimeout) {
+            clearTimeout(this.rolloverTimeout);
+            this.rolloverTimeout = null;
+        }
+        this._clearFinishRolloverTimeout();
+
+        this._closeConnection(this.connection);
+        this._closeConnection(this.drainingConnection);
+        this.connection = null;
+        this.drainingConnection = null;
+        this.overlapSamplesRemaining = 0;
+    }
+
+    // Plan a rollover ahead of the four hour stream limit or the credential expiry, whichever is first
+    private _scheduleRollover(connection: TranscribeConnection): void {
+        if (this.rolloverTimeout) {
+            clearTimeout(this.rolloverTimeout);
+        }
+
+        const limit = Math.min(connection.openedAt + this.config.rollover.maxStreamDuration, connection.expiration);
+        const delay = Math.max(limit - this.config.rollover.lead - Date.now(), ROLLOVER_MIN_INTERVAL);
+
+        this.config.log(`Rolling over to a new stream in ${Math.round(delay / 1000)}s`);
+        this.rolloverTimeout = setTimeout(() => this._rollover(), delay);
+    }
+
+    // Open a replacement stream with fresh credentials while the current one is still healthy
+    private async _rollover(): Promise<void> {
+        this.rolloverTimeout = null;
+        const generation = this.generation;
+        const previous = this.connection;
+        if (!previous || this.drainingConnection || this.isEnding) return;
+
+        this.config.log('Rolling over to a new Transcribe stream');
+        let next: TranscribeConnection;
+        try {
+            next = await this._openConnection(true);
+        } catch (error: unknown) {
+            // The current stream is still open; if it dies first the reconnect logic takes over
+            this.config.log('Rollover failed, retrying:', error);
+            if (generation === this.generation && this.connection === previous && !this.isEnding) {
+                this.rolloverTimeout = setTimeout(() => this._rollover(), ROLLOVER_RETRY_DELAY);
+            }
+            return;
+        }
+        if (generation !== this.generation || this.connection !== previous || this.isEnding) {
+            this._closeConnection(next);
+            return;
+        }
+
+        // Both streams get the same audio for the overlap, and its midpoint is where results switch
+        // from the old stream to the new one
+        const overlapSamples = Math.round(this.config.sampleRate * this.config.rollover.overlapDuration / 1000);
+        const midpoint = overlapSamples / 2 / this.config.sampleRate;
+        previous.resultsUntil = previous.samplesSent / this.config.sampleRate + midpoint;
+        next.resultsFrom = midpoint;
+
+        this.drainingConnection = previous;
+        this.overlapSamplesRemaining = overlapSamples;
+        this._activateConnection(next);
+
+        // Don't wait for speech to fill the overlap if the old stream is about to hit its limit
+        const limit = Math.min(previous.openedAt + this.config.rollover.maxStreamDuration, previous.expiration);
+        this._clearFinishRolloverTimeout();
+        this.finishRolloverTimeout = setTimeout(() => {
+            this.finishRolloverTimeout = null;
+            if (this.drainingConnection === previous) {
+                this._finishRollover();
+            }
+        }, Math.max(0, limit - Date.now()));
+    }
+
+    private _clearFinishRolloverTimeout(): void {
+        if (this.finishRolloverTimeout) {
+            clearTimeout(this.finishRolloverTimeout);
+            this.finishRolloverTimeout = null;
+        }
+    }
+
+    // Closes the old stream of a finished rollover without waiting for its last results. A reconnect
+    // leaves it be, since its results are still wanted
+    private _closeDrainedConnection(): void {
+        if (!this.closingConnection) return;
+
+        clearTimeout(this.closingConnection.timeout);
+        this._closeConnection(this.closingConnection.connection);
+        this.closingConnection = null;
+    }
+
+    private _finishRollover(): void {
+        const previous = this.drainingConnection;
+        const next = this.connection;
+        if (!previous || !next) return;
+        this._clearFinishRolloverTimeout();
+
+        // Everything the new stream has received so far was shared with the old one. Split at its
+        // actual midpoint, since the overlap may have been cut short or overshot by part of a buffer
+        const shared = next.samplesSent / this.config.sampleRate;
+        previous.resultsUntil = previous.samplesSent / this.config.sampleRate - shared / 2;
+        next.resultsFrom = shared / 2;
+
+        this.config.log('Rollover complete, closing previous stream');
+        this.drainingConnection = null;
+        this.overlapSamplesRemaining = 0;
+
+        // Ending the audio lets the old stream deliver its remaining final results before it closes
+        previous.audioStream.close();
+        this._closeDrainedConnection();
+        const timeout = setTimeout(() => {
+            this.closingConnection = null;
+            this._closeConnection(previous);
+        }, DRAIN_TIMEOUT);
+        this.closingConnection = { connection: previous, timeout };
+    }
+
+    // Replace a dropped Transcribe stream, keeping the transcript and replaying audio captured meanwhile
+    private async _reconnect(cause: unknown): Promise<void> {
+        const generation = this.generation;
+        const policy = this.config.reconnect;
+
+        this.config.log('Transcribe stream dropped, reconnecting:', cause);
+        this._closeAllConnections();
+        // Partials of the dropped stream will never be finalized
+        this.transcriptAssembler.clearPartials();
+        this.replayBuffer = new PCMRingBuffer(this._bufferCapacity(REPLAY_BUFFER_DURATION));
+
+        let lastError = toTranscribeError(cause);
+        for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+            const delay = getReconnectDelay(policy, attempt);
+            this.config.log(`Reconnect attempt ${attempt} of ${policy.maxAttempts} in ${Math.round(delay)}ms`);
+            this.config.onReconnecting({ attempt, maxAttempts: policy.maxAttempts, delay });
+
+            await new Promise(resolve => setTimeout(resolve, delay));
+            if (generation !== this.generation) return;
+
+            let connection: TranscribeConnection;
+            try {
+                connection = await this._openConnection(true);
+            } catch (error: unknown) {
+                this.config.log('Reconnect attempt failed:', error);
+                lastError = toTranscribeError(error);
+                if (!lastError.recoverable) break;
+                continue;
+            }
+            if (generation !== this.generation) {
+                this._closeConnection(connection);
+                return;
+            }
+
+            this._activateConnection(connection);
+
+            this.config.log('Reconnected');
+            this.config.onReconnected(attempt);
+            return;
+        }
+
+        if (generation !== this.generation) return;
+        this._fail(lastError);
+    }
+
+    private _fail(error: TranscribeError): void {
+        const ended = this.ended;
+        this.ended = null;
+        this.config.onError(error);
+        this.close();
+        ended?.reject(error);
+    }
+
+    // Handle transcription results processing
+    private async _processTranscriptionResults(connection: TranscribeConnection): Promise<void> {
+        try {
+            // Use appropriate type assertion to handle the stream
+            const typedStream = connection.response as { TranscriptResultStream: AsyncIterable<TranscriptionResult> };
+
+            for await (const event of typedStream.TranscriptResultStream) {
+                const results = event.TranscriptEvent?.Transcript?.Results;
+                if (!results || results.length === 0) continue;
+
+                // One event can carry several results, e.g. a final result and the next partial, or
+                // results for different channels
+                let updated = false;
+                let hasFinal = false;
+                for (const result of results) {
+                    if (result.IsPartial && !this.config.partialResults.partialResults) continue;
+
+                    const startTime = result.StartTime ?? connection.resultsFrom;
+                    if (startTime < connection.resultsFrom || startTime >= connection.resultsUntil) {
+                        this.config.log('Skipping result covered by another stream:', startTime);
+                        continue;
+                    }
+                    this.config.log('Processing result:', {
+                        resultId: result.ResultId,
+                        channelId: result.ChannelId,
+                        isPartial: result.IsPartial,
+                        transcript: result.Alternatives?.[0]?.Transcript || ''
+                    });
+                    this._handleResult(toTranscriptSegment(result, connection.timeOffset));
+                    updated = true;
+                    hasFinal = hasFinal || !result.IsPartial;
+                }
+
+                if (updated) {
+                    this._scheduleTranscriptUpdate(hasFinal);
+                }
+            }
+
+            // Transcribe closes the result stream once it finalized the audio of an ended stream
+            if (this.isEnding && connection === this.connection) {
+                if (this.quotaError) {
+                    this._fail(this.quotaError);
+                    return;
+                }
+                const ended = this.ended;
+                this.ended = null;
+                ended?.resolve();
+            }
+        } catch (error: unknown) {
+            this.config.log('Error processing transcription results:', error);
+            if (error instanceof Error && error.name === 'AbortError') {
+                return;
+            }
+            // Ignore streams that were already closed or replaced
+            if (!this.isOpen || connection !== this.connection) {
+                return;
+            }
+
+            const transcribeError = toTranscribeError(error);
+            if (transcribeError.recoverable && this.config.reconnect.maxAttempts > 0) {
+                this._reconnect(transcribeError);
+                return;
+            }
+            this._fail(transcribeError);
+        }
+    }
+}
+
+// Regroups chunks of any size into chunks of the given number of samples; the last one may be shorter
+async function* rechunk(audio: AsyncIterable<Int16Array>, size: number): AsyncGenerator<Int16Array> {
+    let buffer = new Int16Array(size);
+    let offset = 0;
+
+    for await (const chunk of audio) {
+        let position = 0;
+        while (position < chunk.length) {
+            const count = Math.min(size - offset, chunk.length - position);
+            buffer.set(chunk.subarray(position, position + count), offset);
+            offset += count;
+            position += count;
+            if (offset === size) {
+                yield buffer;
+                buffer = new Int16Array(size);
+                offset = 0;
+            }
+        }
+    }
+
+    if (offset > 0) {
+        yield buffer.slice(0, offset);
+    }
+}
+
+// Mono mix of interleaved PCM as floats, the input voice activity detectors expect
+const toMonoSamples = (pcmData: Int16Array, channelCount: number): Float32Array => {
+    const samples = new Float32Array(pcmData.length / channelCount);
+
+    for (let i = 0; i < samples.length; i++) {
+        let sum = 0;
+        for (let channel = 0; channel < channelCount; channel++) {
+            sum += pcmData[i * channelCount + channel];
+        }
+        samples[i] = sum / channelCount / 32768;
+    }
+
+    return samples;
+};
+
+/**
+ * Transcribes 16-bit PCM (interleaved when channelCount is 2) at the session sample rate and resolves
+ * with the final transcript once the audio ends. Unless skipSilence is false, the same VAD gating as in
+ * the browser applies, timed by the position in the audio rather than the clock
+ */
+export const transcribeAudio = async (
+    audio: AsyncIterable<Int16Array>,
+    options: TranscribeAudioOptions
+): Promise<TranscribeAudioResult> => {
+    const sampleRate = options.sampleRate || SAMPLE_RATE;
+    const channelCount = options.channelCount || 1;
+    const bufferSize = options.bufferSize || BUFFER_SIZE;
+    const skipSilence = options.skipSilence ?? true;
+    const detector: VoiceActivityDetector = options.voiceActivityDetector
+        || new RMSVoiceActivityDetector(options.vadThreshold || VAD_THRESHOLD);
+    const log: Logger = (message, ...args) => {
+        if (options.debug) {
+            // eslint-disable-next-line no-console
+            console.log(`[AWSTranscribe] ${message}`, ...args);
+        }
+    };
+
+    let failure = null as TranscribeError | null;
+    const session = new TranscribeSession({
+        ...options,
+        sampleRate,
+        channelCount,
+        log,
+        onError: error => { failure = error; }
+    });
+    const gate = new VoiceActivityGate({
+        sampleRate,
+        channelCount,
+        preRollDuration: options.preRollDuration ?? PRE_ROLL_DURATION,
+        hangoverDuration: options.hangoverDuration ?? HANGOVER_DURATION,
+        send: pcmData => session.send(pcmData)
+    });
+    gate.reset(0);
+    detector.reset?.();
+
+    try {
+        await session.open();
+    } catch (error: unknown) {
+        session.close();
+        throw toTranscribeError(error);
+    }
+
+    try {
+        const startedAt = Date.now();
+        let frames = 0;
+        for await (const chunk of rechunk(audio, bufferSize * channelCount)) {
+            if (failure) break;
+
+            const position = frames / sampleRate * 1000;
+            frames += chunk.length / channelCount;
+            if (skipSilence) {
+                gate.process(chunk, detector.detect(toMonoSamples(chunk, channelCount), sampleRate), position);
+            } else {
+                session.send(chunk);
+            }
+
+            if (options.speed) {
+                // Wait until the end of this chunk is due at the requested pace
+                const delay = startedAt + frames / sampleRate * 1000 / options.speed - Date.now();
+                if (delay > 0) {
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+            }
+        }
+
+        if (!failure) {
+            await session.end();
+        }
+    } finally {
+        session.close();
+    }
+
+    if (failure) throw failure;
+
+    return {
+        transcript: session.transcriptAssembler.getTranscript().trim(),
+        segments: session.transcriptAssembler.getSegments(),
+        turns: session.transcriptAssembler.getTurns()
+    };
+};
@@ -0,0 +1,236 @@
+import { TranscriptSegment, TranscriptWord } from './transcript-segment';
+
+export interface ChannelTranscript {
+    channelId: string | null;
+    // Finalized segments ordered by start time
+    segments: TranscriptSegment[];
+    // The result Transcribe is still revising, if any
+    partial: TranscriptSegment | null;
+}
+
+// Consecutive words of one speaker on one channel
+export interface SpeakerTurn {
+    speaker: string | null;
+    channelId: string | null;
+    text: string;
+    startTime: number;
+    endTime: number;
+}
+
+// Punctuation attaches to the preceding word, everything else is separated by a space
+const appendWord = (text: string, word: TranscriptWord): string => {
+    if (!text) return word.content;
+    return word.type === 'punctuation' ? text + word.content : `${text} ${word.content}`;
+};
+
+// Index at which a segment starting at startTime keeps the list ordered, after any equal start times
+const findInsertIndex = (segments: TranscriptSegment[], startTime: number): number => {
+    let low = 0;
+    let high = segments.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (segments[middle].startTime <= startTime) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+const joinTranscripts = (segments: TranscriptSegment[]): string => segments
+    .filter(segment => segment.transcript)
+    .map(segment => segment.transcript + ' ')
+    .join('');
+
+// Groups the finalized words of a segment into the turns before it, replacing a turn it extends
+const appendTurns = (turns: SpeakerTurn[], segment: TranscriptSegment): void => {
+    const words: TranscriptWord[] = segment.words.length > 0 ? segment.words : [{
+        content: segment.transcript,
+        type: 'pronunciation',
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        confidence: segment.confidence,
+        stable: true,
+        speaker: null,
+        vocabularyFilterMatch: false
+    }];
+
+    words.filter(word => word.content).forEach(word => {
+        const turn = turns[turns.length - 1];
+        const sameTurn = turn && turn.channelId === segment.channelId
+            && (word.type === 'punctuation' || turn.speaker === word.speaker);
+
+        if (sameTurn) {
+            turns[turns.length - 1] = {
+                ...turn,
+                text: appendWord(turn.text, word),
+                endTime: Math.max(turn.endTime, word.endTime)
+            };
+        } else if (word.type === 'pronunciation') {
+            turns.push({
+                speaker: word.speaker,
+                channelId: segment.channelId,
+                text: word.content,
+                startTime: word.startTime,
+                endTime: word.endTime
+            });
+        }
+    });
+};
+
+// The turns and transcript before a segment, so that a late segment only replays the ones after it
+interface Checkpoint {
+    turnCount: number;
+    lastTurn: SpeakerTurn | undefined;
+    transcriptLength: number;
+}
+
+/**
+ * Builds the transcript from the stream of partial and final results, keyed by ChannelId and
+ * ResultId. Each channel keeps its finalized segments in order plus the current partial. The
+ * transcript and turns are kept up to date as finals arrive, so partials don't rebuild them
+ */
+export class TranscriptAssembler {
+    private readonly channels: Map<string | null, ChannelTranscript>;
+    // Finalized segments of all channels, ordered by start time, with the state before each one
+    private segments: TranscriptSegment[];
+    private checkpoints: Checkpoint[];
+    private turns: SpeakerTurn[];
+    private transcript: string;
+
+    constructor() {
+        this.channels = new Map();
+        this.segments = [];
+        this.checkpoints = [];
+        this.turns = [];
+        this.transcript = '';
+    }
+
+    /**
+     * Records a result and returns it. Transcribe only flags a word as stable once, so for partials
+     * the flag is carried over from the previous partial of the same result
+     */
+    add(segment: TranscriptSegment): TranscriptSegment {
+        const channel = this._getChannel(segment.channelId);
+        const previous = channel.partial?.resultId === segment.resultId ? channel.partial : null;
+
+        if (!segment.isPartial) {
+            if (previous) {
+                channel.partial = null;
+            }
+            channel.segments.splice(findInsertIndex(channel.segments, segment.startTime), 0, segment);
+            this._addFinal(segment);
+            return segment;
+        }
+
+        let merged = segment;
+        if (previous && segment.alternatives.length > 0) {
+            const words = segment.words.map((word, index) => {
+                const earlier = previous.words[index];
+                const keepStable = !word.stable && earlier?.stable && earlier.content === word.content;
+                return keepStable ? { ...word, stable: true } : word;
+            });
+            const alternatives = [{ ...segment.alternatives[0], words }, ...segment.alternatives.slice(1)];
+            merged = { ...segment, words, alternatives };
+        }
+
+        channel.partial = merged;
+        return merged;
+    }
+
+    getChannels(): ChannelTranscript[] {
+        return Array.from(this.channels.values());
+    }
+
+    getChannel(channelId: string | null): ChannelTranscript | undefined {
+        return this.channels.get(channelId);
+    }
+
+    /**
+     * Finalized segments of all channels, ordered by start time
+     */
+    getSegments(): TranscriptSegment[] {
+        return this.segments.slice();
+    }
+
+    /**
+     * Finalized words grouped into turns, starting a new turn whenever the speaker or channel changes.
+     * Punctuation stays with the turn it follows. Segments without word items count as one word.
+     * Each final result creates a new array, so returned ones don't change
+     */
+    getTurns(): SpeakerTurn[] {
+        return this.turns;
+    }
+
+    getPartials(): TranscriptSegment[] {
+        return this.getChannels()
+            .map(channel => channel.partial)
+            .filter((partial): partial is TranscriptSegment => partial !== null);
+    }
+
+    /**
+     * Text of all finalized segments, each followed by a space
+     */
+    getTranscript(): string {
+        return this.transcript;
+    }
+
+    getInterimTranscript(): string {
+        return joinTranscripts(this.getPartials()).trim();
+    }
+
+    clearSegments(): void {
+        this.channels.forEach(channel => {
+            channel.segments = [];
+        });
+        this.segments = [];
+        this.checkpoints = [];
+        this.turns = [];
+        this.transcript = '';
+    }
+
+    clearPartials(): void {
+        this.channels.forEach(channel => {
+            channel.partial = null;
+        });
+    }
+
+    // Restores the state before the segment's position and replays the segments from there, which
+    // is only the new one unless a channel lags behind
+    private _addFinal(segment: TranscriptSegment): void {
+        const index = findInsertIndex(this.segments, segment.startTime);
+        const checkpoint = this.checkpoints[index];
+        let turns = this.turns.slice();
+
+        if (checkpoint) {
+            turns = turns.slice(0, checkpoint.turnCount);
+            if (checkpoint.lastTurn) {
+                turns[checkpoint.turnCount - 1] = checkpoint.lastTurn;
+            }
+            this.transcript = this.transcript.slice(0, checkpoint.transcriptLength);
+        }
+
+        this.segments.splice(index, 0, segment);
+        this.checkpoints.length = index;
+        this.segments.slice(index).forEach(next => {
+            this.checkpoints.push({
+                turnCount: turns.length,
+                lastTurn: turns[turns.length - 1],
+                transcriptLength: this.transcript.length
+            });
+            appendTurns(turns, next);
+            this.transcript += joinTranscripts([next]);
+        });
+        this.turns = turns;
+    }
+
+    private _getChannel(channelId: string | null): ChannelTranscript {
+        let channel = this.channels.get(channelId);
+        if (!channel) {
+            channel = { channelId, segments: [], partial: null };
+            this.channels.set(channelId, channel);
+        }
+        return channel;
+    }
+}
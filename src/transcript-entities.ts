@@ -0,0 +1,62 @@
+import { TranscriptEntity, TranscriptSegment, TranscriptWord } from './transcript-segment';
+
+// A run of the transcript, either inside an entity or plain text between entities
+export interface TranscriptPart {
+    text: string;
+    entity: TranscriptEntity | null;
+}
+
+// Word timestamps and entity timestamps are rounded separately
+const TIME_TOLERANCE = 0.001; // s
+
+const findEntity = (word: TranscriptWord, entities: TranscriptEntity[]): TranscriptEntity | null => {
+    // Punctuation after an entity shares its end time, but isn't part of it
+    if (word.type === 'punctuation') return null;
+
+    return entities.find(entity => word.startTime >= entity.startTime - TIME_TOLERANCE
+        && word.endTime <= entity.endTime + TIME_TOLERANCE) || null;
+};
+
+/**
+ * Splits a segment's transcript into entity and plain text parts, in order. Joined, their text is the
+ * transcript as built from the words. The spaces between parts are kept in plain text parts, so an
+ * entity part holds just the entity. Segments without word items come back as a single plain part
+ */
+export const splitByEntities = (segment: TranscriptSegment): TranscriptPart[] => {
+    if (segment.words.length === 0) {
+        return segment.transcript ? [{ text: segment.transcript, entity: null }] : [];
+    }
+
+    const parts: TranscriptPart[] = [];
+
+    segment.words.filter(word => word.content).forEach(word => {
+        const entity = findEntity(word, segment.entities);
+        const part = parts[parts.length - 1];
+        const separator = part && word.type === 'pronunciation' ? ' ' : '';
+
+        if (part && part.entity === entity) {
+            part.text += separator + word.content;
+        } else if (entity) {
+            if (separator && part.entity) {
+                parts.push({ text: separator, entity: null });
+            } else if (separator) {
+                part.text += separator;
+            }
+            parts.push({ text: word.content, entity });
+        } else {
+            parts.push({ text: separator + word.content, entity: null });
+        }
+    });
+
+    return parts;
+};
+
+/**
+ * The segment's transcript with every entity replaced, by default with its type such as [NAME]
+ */
+export const redactTranscript = (
+    segment: TranscriptSegment,
+    replace: (entity: TranscriptEntity) => string = entity => `[${entity.type || entity.category}]`
+): string => splitByEntities(segment)
+    .map(part => part.entity ? replace(part.entity) : part.text)
+    .join('');
@@ -0,0 +1,165 @@
+// Shape of a Result in a TranscriptEvent, as far as the client reads it
+export interface TranscribeResultItem {
+    Content?: string;
+    Type?: string;
+    StartTime?: number;
+    EndTime?: number;
+    Confidence?: number;
+    Stable?: boolean;
+    Speaker?: string;
+    VocabularyFilterMatch?: boolean;
+}
+
+export interface TranscribeResultEntity {
+    StartTime?: number;
+    EndTime?: number;
+    Category?: string;
+    Type?: string;
+    Content?: string;
+    Confidence?: number;
+}
+
+export interface TranscribeResult {
+    ResultId?: string;
+    ChannelId?: string;
+    // Only present with language identification
+    LanguageCode?: string;
+    LanguageIdentification?: Array<{
+        LanguageCode?: string;
+        Score?: number;
+    }>;
+    IsPartial?: boolean;
+    StartTime?: number;
+    EndTime?: number;
+    Alternatives?: Array<{
+        Transcript?: string;
+        Items?: TranscribeResultItem[];
+        Entities?: TranscribeResultEntity[];
+    }>;
+}
+
+export interface TranscriptWord {
+    content: string;
+    type: 'pronunciation' | 'punctuation';
+    // Seconds since the start of the session's audio
+    startTime: number;
+    endTime: number;
+    // 0-1, or null when Transcribe didn't report one
+    confidence: number | null;
+    // Stable words won't change in later partial or final results for the same segment
+    stable: boolean;
+    // Speaker label such as '0' when speaker labels are enabled, otherwise null
+    speaker: string | null;
+    // True for words matched by the vocabulary filter when vocabularyFilterMethod is 'tag'
+    vocabularyFilterMatch: boolean;
+}
+
+// Kinds of personally identifiable information Transcribe can identify or redact
+export type PiiEntityType =
+    | 'ADDRESS'
+    | 'BANK_ACCOUNT_NUMBER'
+    | 'BANK_ROUTING'
+    | 'CREDIT_DEBIT_CVV'
+    | 'CREDIT_DEBIT_EXPIRY'
+    | 'CREDIT_DEBIT_NUMBER'
+    | 'EMAIL'
+    | 'NAME'
+    | 'PHONE'
+    | 'PIN'
+    | 'SSN';
+
+// A span of the transcript Transcribe identified, i.e. PII or, in medical mode, protected health information
+export interface TranscriptEntity {
+    // 'PII' or 'PHI'
+    category: string;
+    // Kind of information within the category, e.g. 'NAME' for PII, or null when Transcribe reports none
+    type: PiiEntityType | string | null;
+    content: string;
+    startTime: number;
+    endTime: number;
+    confidence: number | null;
+}
+
+export interface TranscriptAlternative {
+    transcript: string;
+    words: TranscriptWord[];
+    entities: TranscriptEntity[];
+}
+
+export interface TranscriptSegment {
+    resultId: string;
+    // e.g. 'ch_0' when channel identification is enabled, otherwise null
+    channelId: string | null;
+    isPartial: boolean;
+    startTime: number;
+    endTime: number;
+    transcript: string;
+    words: TranscriptWord[];
+    entities: TranscriptEntity[];
+    // Mean confidence of the spoken words, or null when none was reported
+    confidence: number | null;
+    // All alternatives, the first one being the most likely and the source of transcript and words
+    alternatives: TranscriptAlternative[];
+    // Language identified by Transcribe and its score (0-1), or null without language identification
+    languageCode: string | null;
+    languageConfidence: number | null;
+}
+
+const toWord = (item: TranscribeResultItem, timeOffset: number, isPartial: boolean): TranscriptWord => ({
+    content: item.Content || '',
+    type: item.Type === 'punctuation' ? 'punctuation' : 'pronunciation',
+    startTime: (item.StartTime ?? 0) + timeOffset,
+    endTime: (item.EndTime ?? 0) + timeOffset,
+    confidence: item.Confidence ?? null,
+    // Words in a final result can't change anymore
+    stable: !isPartial || !!item.Stable,
+    speaker: item.Speaker ?? null,
+    vocabularyFilterMatch: !!item.VocabularyFilterMatch
+});
+
+const toEntity = (entity: TranscribeResultEntity, timeOffset: number): TranscriptEntity => ({
+    category: entity.Category || '',
+    type: entity.Type ?? null,
+    content: entity.Content || '',
+    startTime: (entity.StartTime ?? 0) + timeOffset,
+    endTime: (entity.EndTime ?? 0) + timeOffset,
+    confidence: entity.Confidence ?? null
+});
+
+const getConfidence = (words: TranscriptWord[]): number | null => {
+    const scores = words
+        .filter(word => word.type === 'pronunciation' && word.confidence !== null)
+        .map(word => word.confidence as number);
+    if (scores.length === 0) return null;
+    return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+};
+
+/**
+ * Converts a raw Transcribe result into a TranscriptSegment. timeOffset (seconds) moves the
+ * stream-relative timestamps onto the session timeline
+ */
+export const toTranscriptSegment = (result: TranscribeResult, timeOffset = 0): TranscriptSegment => {
+    const isPartial = !!result.IsPartial;
+    const alternatives = (result.Alternatives || []).map(alternative => ({
+        transcript: alternative.Transcript || '',
+        words: (alternative.Items || []).map(item => toWord(item, timeOffset, isPartial)),
+        entities: (alternative.Entities || []).map(entity => toEntity(entity, timeOffset))
+    }));
+    const best = alternatives[0] || { transcript: '', words: [], entities: [] };
+    const language = (result.LanguageIdentification || []).find(({ LanguageCode }) => LanguageCode === result.LanguageCode);
+
+    return {
+        resultId: result.ResultId || '',
+        channelId: result.ChannelId ?? null,
+        isPartial,
+        startTime: (result.StartTime ?? 0) + timeOffset,
+        endTime: (result.EndTime ?? 0) + timeOffset,
+        transcript: best.transcript,
+        words: best.words,
+        entities: best.entities,
+        confidence: getConfidence(best.words),
+        alternatives,
+        languageCode: result.LanguageCode ?? null,
+        languageConfidence: language?.Score ?? null
+    };
+};
@@ -0,0 +1,44 @@
+import * as React from 'react';
+import { ReactNode } from 'react';
+import { TranscriptEntity, TranscriptSegment } from './transcript-segment';
+import { splitByEntities } from './transcript-entities';
+
+export interface TranscriptTextProps {
+    segment: TranscriptSegment;
+    // Shows entities replaced by their type, e.g. [NAME], instead of their text
+    redact?: boolean;
+    // CSS class of the <mark> around each entity
+    entityClassName?: string;
+    // Custom rendering of an entity; text is its content, or the replacement when redacting
+    renderEntity?: (entity: TranscriptEntity, text: string) => ReactNode;
+}
+
+/**
+ * Renders a segment's transcript with its PII or PHI entities highlighted or redacted
+ */
+export const TranscriptText: React.FC<TranscriptTextProps> = ({
+                                                                  segment,
+                                                                  redact = false,
+                                                                  entityClassName = "aws-transcribe-entity",
+                                                                  renderEntity
+                                                              }) => (
+    <>
+        {splitByEntities(segment).map((part, index) => {
+            if (!part.entity) {
+                return <React.Fragment key={index}>{part.text}</React.Fragment>;
+            }
+
+            const label = part.entity.type || part.entity.category;
+            const text = redact ? `[${label}]` : part.text;
+            if (renderEntity) {
+                return <React.Fragment key={index}>{renderEntity(part.entity, text)}</React.Fragment>;
+            }
+
+            return (
+                <mark key={index} className={entityClassName} data-entity-type={label} title={label}>
+                    {text}
+                </mark>
+            );
+        })}
+    </>
+);
@@ -0,0 +1,160 @@
+/**
+ * Where the minutes of audio sent to Transcribe are kept, per user and billing period
+ */
+export interface UsageStore {
+    // Minutes recorded under the key, 0 when there are none
+    get(key: string): Promise<number>;
+    add(key: string, minutes: number): Promise<void>;
+}
+
+export interface UsageMeterOptions {
+    // Defaults to localStorage in the browser and memory elsewhere
+    store?: UsageStore;
+    // Keeps the usage of different users or tenants apart, e.g. a user id
+    key?: string;
+    // Name of the billing period a date falls in. Calendar months in UTC by default, e.g. '2025-01'
+    billingPeriod?: (date: Date) => string;
+}
+
+// The minutes reserved with a set of credentials (TranscribeCredentials.reservedMinutes) and how many
+// of them were used
+export interface UsageReservation {
+    credentialsId: string;
+    reservedMinutes: number;
+    minutesUsed: number;
+    minutesRemaining: number;
+}
+
+const STORAGE_KEY = 'aws_transcribe_minutes_used';
+const SAVE_INTERVAL = 10; // Audio recorded before it's written to the store (s)
+
+const getMonth = (date: Date): string => date.toISOString().slice(0, 7);
+
+/**
+ * Keeps usage for the lifetime of the page only
+ */
+export class MemoryUsageStore implements UsageStore {
+    private minutes: Map<string, number>;
+
+    constructor() {
+        this.minutes = new Map();
+    }
+
+    async get(key: string): Promise<number> {
+        return this.minutes.get(key) || 0;
+    }
+
+    async add(key: string, minutes: number): Promise<void> {
+        this.minutes.set(key, (this.minutes.get(key) || 0) + minutes);
+    }
+}
+
+/**
+ * Keeps usage in localStorage, shared by all tabs. Where the Web Locks API is available, tabs adding
+ * at the same time take turns, so none of them overwrites the others' minutes
+ */
+export class LocalStorageUsageStore implements UsageStore {
+    async get(key: string): Promise<number> {
+        const stored = localStorage.getItem(key);
+        return stored ? parseFloat(stored) || 0 : 0;
+    }
+
+    async add(key: string, minutes: number): Promise<void> {
+        const update = async () => {
+            localStorage.setItem(key, (await this.get(key) + minutes).toString());
+        };
+        if (typeof navigator !== 'undefined' && navigator.locks) {
+            await navigator.locks.request(key, update);
+        } else {
+            await update();
+        }
+    }
+}
+
+/**
+ * Counts the audio actually sent to Transcribe, which is what AWS bills, and adds it up per billing
+ * period. Also tracks the minutes used of the current credentials' reservation
+ */
+export class UsageMeter {
+    private readonly store: UsageStore;
+    private readonly key: string;
+    private readonly billingPeriod: (date: Date) => string;
+    // Recorded, but not yet added to the store
+    private unsavedSeconds: number;
+    private saving: Promise<void>;
+    private reservation: { credentialsId: string; reservedMinutes: number; seconds: number } | null;
+
+    constructor(options: UsageMeterOptions = {}) {
+        this.store = options.store
+            || (typeof localStorage === 'undefined' ? new MemoryUsageStore() : new LocalStorageUsageStore());
+        this.key = options.key || '';
+        this.billingPeriod = options.billingPeriod || getMonth;
+        this.unsavedSeconds = 0;
+        this.saving = Promise.resolve();
+        this.reservation = null;
+    }
+
+    /**
+     * Records seconds of audio sent to Transcribe
+     */
+    record(seconds: number): void {
+        this.unsavedSeconds += seconds;
+        if (this.reservation) {
+            this.reservation.seconds += seconds;
+        }
+        if (this.unsavedSeconds >= SAVE_INTERVAL) {
+            this.save();
+        }
+    }
+
+    /**
+     * Adds the audio recorded so far to the store. Failed writes are retried with the next one
+     */
+    save(): Promise<void> {
+        const seconds = this.unsavedSeconds;
+        if (seconds === 0) return this.saving;
+
+        this.unsavedSeconds = 0;
+        this.saving = this.saving
+            .then(() => this.store.add(this._storageKey(), seconds / 60))
+            .catch(() => { this.unsavedSeconds += seconds; });
+        return this.saving;
+    }
+
+    /**
+     * Minutes used in the current billing period, including audio not saved yet
+     */
+    async getMinutesUsed(): Promise<number> {
+        await this.saving;
+        return await this.store.get(this._storageKey()) + this.unsavedSeconds / 60;
+    }
+
+    /**
+     * Starts counting against the minutes reserved with a set of credentials. Credentials without a
+     * reservation end the previous one, and the same credentials again keep counting unless they come
+     * with a different number of minutes, which is a new reservation. The count is kept in memory, so
+     * credentials reused after a reload or by another tab start counting from 0
+     */
+    reserve(credentialsId: string, reservedMinutes: number | undefined): void {
+        const current = this.reservation;
+        if (current?.credentialsId === credentialsId && current.reservedMinutes === reservedMinutes) return;
+
+        this.reservation = reservedMinutes === undefined ? null : { credentialsId, reservedMinutes, seconds: 0 };
+    }
+
+    getReservation(): UsageReservation | null {
+        if (!this.reservation) return null;
+
+        const { credentialsId, reservedMinutes, seconds } = this.reservation;
+        return {
+            credentialsId,
+            reservedMinutes,
+            minutesUsed: seconds / 60,
+            minutesRemaining: Math.max(0, reservedMinutes - seconds / 60)
+        };
+    }
+
+    private _storageKey(): string {
+        return [STORAGE_KEY, this.key, this.billingPeriod(new Date())].filter(Boolean).join(':');
+    }
+}
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AWSTranscribeClient, TranscribeOptions } from './aws-transcribe-client';
+import { TranscribeError, toTranscribeError } from './errors';
+import { generateUUID } from './transcribe-session';
+
+export type UseAWSTranscribeOptions = TranscribeOptions;
+
+// Options that are objects or arrays of plain data, compared by value
+type DataOptions = Pick<TranscribeOptions, 'languageOptions' | 'medical' | 'piiEntityTypes' | 'reconnect' | 'rollover'>;
+
+// Options that are instances, compared by identity when the next session starts
+type InstanceOptions = Pick<
+    TranscribeOptions,
+    'voiceActivityDetector' | 'remoteStream' | 'credentialStore' | 'usageMeter' | 'tabCoordinator'
+>;
+
+const INSTANCE_OPTIONS: Array<keyof InstanceOptions> = [
+    'voiceActivityDetector', 'remoteStream', 'credentialStore', 'usageMeter', 'tabCoordinator'
+];
+
+const pickInstances = (options: TranscribeOptions): InstanceOptions => ({
+    voiceActivityDetector: options.voiceActivityDetector,
+    remoteStream: options.remoteStream,
+    credentialStore: options.credentialStore,
+    usageMeter: options.usageMeter,
+    tabCoordinator: options.tabCoordinator
+});
+
+export interface UseAWSTranscribeResult {
+    isListening: boolean;
+    isActivelySpeaking: boolean;
+    isReconnecting: boolean;
+    isPaused: boolean;
+    silenceCountdown: number | null;
+    browserSupported: boolean;
+    error: TranscribeError | null;
+    transcript: string;
+    interimTranscript: string;
+    // Resolve with false instead of throwing; the error is in error
+    start: () => Promise<boolean>;
+    stop: () => boolean;
+    toggle: () => Promise<boolean>;
+    pause: () => boolean;
+    resume: () => boolean;
+    // Clears the transcript, while listening too
+    reset: () => void;
+    clearCredentials: () => Promise<void>;
+}
+
+/**
+ * Runs an AWSTranscribeClient for the lifetime of the component and keeps its state and transcript.
+ * Callbacks, including credentialsProvider, are read when called, and object or array options are
+ * compared by value, so inline values don't recreate the client. Instances such as a credentialStore
+ * are picked up by the next start(). A new audioSource switches sources in place, and changing any
+ * other option recreates the client
+ */
+export const useAWSTranscribe = (options: UseAWSTranscribeOptions): UseAWSTranscribeResult => {
+    const {
+        region,
+        languageCode,
+        sampleRate,
+        identifyLanguage,
+        identifyMultipleLanguages,
+        preferredLanguage,
+        vadThreshold,
+        silenceDuration,
+        maxSilenceDuration,
+        preRollDuration,
+        hangoverDuration,
+        bufferSize,
+        audioSource,
+        showSpeakerLabel,
+        debug,
+        partialResults,
+        enablePartialResultsStabilization,
+        partialResultsStability,
+        maxInterimUpdatesPerSecond,
+        contentIdentificationType,
+        contentRedactionType,
+        vocabularyName,
+        vocabularyFilterName,
+        vocabularyFilterMethod,
+        languageModelName,
+        credentialsKey,
+        quotaWarningMinutes,
+        followActiveTab
+    } = options;
+    const dataOptions = JSON.stringify({
+        languageOptions: options.languageOptions,
+        medical: options.medical,
+        piiEntityTypes: options.piiEntityTypes,
+        reconnect: options.reconnect,
+        rollover: options.rollover
+    });
+
+    const [isListening, setIsListening] = useState<boolean>(false);
+    const [isActivelySpeaking, setIsActivelySpeaking] = useState<boolean>(false);
+    const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
+    const [isPaused, setIsPaused] = useState<boolean>(false);
+    const [silenceCountdown, setSilenceCountdown] = useState<number | null>(null);
+    const [browserSupported, setBrowserSupported] = useState<boolean>(true);
+    const [error, setError] = useState<TranscribeError | null>(null);
+    const [transcript, setTranscript] = useState<string>('');
+    const [interimTranscript, setInterimTranscript] = useState<string>('');
+
+    const clientRef = useRef<AWSTranscribeClient | null>(null);
+    // The callbacks of the latest render
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    // Read when the client is created, so that a new source doesn't recreate it
+    const audioSourceRef = useRef(audioSource);
+    const resetTranscriptRef = useRef<(() => void) | null>(null);
+    // Creates a client with the current instance options, see start()
+    const createClientRef = useRef<(() => AWSTranscribeClient) | null>(null);
+    const instancesRef = useRef<InstanceOptions>({});
+
+    useEffect(() => {
+        const dataValues: DataOptions = JSON.parse(dataOptions);
+        const createClient = () => {
+            const instances = pickInstances(optionsRef.current);
+            instancesRef.current = instances;
+            const client = new AWSTranscribeClient({
+                ...dataValues,
+                ...instances,
+                region,
+                languageCode,
+                sampleRate,
+                identifyLanguage,
+                identifyMultipleLanguages,
+                preferredLanguage,
+                vadThreshold,
+                silenceDuration,
+                maxSilenceDuration,
+                preRollDuration,
+                hangoverDuration,
+                bufferSize,
+                audioSource: audioSourceRef.current,
+                showSpeakerLabel,
+                debug,
+                partialResults,
+                enablePartialResultsStabilization,
+                partialResultsStability,
+                maxInterimUpdatesPerSecond,
+                contentIdentificationType,
+                contentRedactionType,
+                vocabularyName,
+                vocabularyFilterName,
+                vocabularyFilterMethod,
+                languageModelName,
+                credentialsProvider: (minutesUsed) => optionsRef.current.credentialsProvider(minutesUsed),
+                credentialsKey,
+                quotaWarningMinutes,
+                followActiveTab,
+                generateSessionId: () => (optionsRef.current.generateSessionId || generateUUID)(),
+                onTranscript: (data) => {
+                    resetTranscriptRef.current = data.resetTranscript;
+                    setTranscript(data.transcript);
+                    setInterimTranscript(data.interimTranscript);
+                    optionsRef.current.onTranscript?.(data);
+                },
+                onResult: (segment) => optionsRef.current.onResult?.(segment),
+                onLanguageDetected: (event) => optionsRef.current.onLanguageDetected?.(event),
+                onQuotaWarning: (event) => optionsRef.current.onQuotaWarning?.(event),
+                onSpeechStart: () => optionsRef.current.onSpeechStart?.(),
+                onSpeechEnd: () => optionsRef.current.onSpeechEnd?.(),
+                onError: (transcribeError) => {
+                    setError(transcribeError);
+                    optionsRef.current.onError?.(transcribeError);
+                },
+                onStateChange: (state) => {
+                    setIsListening(state.isListening);
+                    setIsActivelySpeaking(state.isActivelySpeaking);
+                    setIsReconnecting(!!state.isReconnecting);
+                    if (state.isPaused !== undefined) {
+                        setIsPaused(state.isPaused);
+                    }
+                    if (state.silenceCountdown !== undefined) {
+                        setSilenceCountdown(state.silenceCountdown);
+                    }
+                    optionsRef.current.onStateChange?.(state);
+                },
+                onReconnecting: (event) => optionsRef.current.onReconnecting?.(event),
+                onReconnected: (attempt) => {
+                    setError(null);
+                    optionsRef.current.onReconnected?.(attempt);
+                }
+            });
+            clientRef.current = client;
+            setBrowserSupported(client.isBrowserSupported());
+            return client;
+        };
+        createClientRef.current = createClient;
+        createClient();
+
+        // Clean up on unmount
+        return () => {
+            const client = clientRef.current;
+            const state = client?.getState();
+            if (client && (state?.isListening || state?.isFollowing)) {
+                client.stop();
+            }
+        };
+    }, [
+        region, languageCode, sampleRate, identifyLanguage, identifyMultipleLanguages, preferredLanguage,
+        vadThreshold, silenceDuration, maxSilenceDuration, preRollDuration, hangoverDuration, bufferSize,
+        showSpeakerLabel, debug, partialResults, enablePartialResultsStabilization, partialResultsStability,
+        maxInterimUpdatesPerSecond, contentIdentificationType, contentRedactionType, vocabularyName,
+        vocabularyFilterName, vocabularyFilterMethod, languageModelName, credentialsKey, quotaWarningMinutes,
+        followActiveTab, dataOptions
+    ]);
+
+    useEffect(() => {
+        if (!audioSource || audioSource === audioSourceRef.current) return;
+        audioSourceRef.current = audioSource;
+
+        clientRef.current?.setAudioSource(audioSource).catch((err: unknown) => {
+            setError(toTranscribeError(err));
+        });
+    }, [audioSource]);
+
+    // Before a session starts, a client with new instance options replaces the current one
+    const startingClient = useCallback((): AWSTranscribeClient | null => {
+        const client = clientRef.current;
+        if (!client || client.getState().isListening || !createClientRef.current) return client;
+
+        const instances = pickInstances(optionsRef.current);
+        if (INSTANCE_OPTIONS.every(name => instances[name] === instancesRef.current[name])) return client;
+
+        client.stop();
+        return createClientRef.current();
+    }, []);
+
+    // The client reports errors through onError as well, except those thrown before it was set up
+    const run = useCallback(async (action: (client: AWSTranscribeClient) => Promise<boolean> | boolean,
+                                   description: string): Promise<boolean> => {
+        const client = startingClient();
+        if (!client) return false;
+
+        try {
+            return await action(client);
+        } catch (err: unknown) {
+            const transcribeError = toTranscribeError(err);
+            console.error(`Error ${description} speech recognition:`, transcribeError.message);
+            setError(transcribeError);
+            return false;
+        }
+    }, [startingClient]);
+
+    const start = useCallback(() => run(client => client.start(), 'starting'), [run]);
+
+    const stop = useCallback((): boolean => clientRef.current?.stop() ?? false, []);
+
+    const toggle = useCallback(() => run(client => client.toggle(), 'toggling'), [run]);
+
+    const pause = useCallback((): boolean => clientRef.current?.pause() ?? false, []);
+
+    const resume = useCallback((): boolean => clientRef.current?.resume() ?? false, []);
+
+    const reset = useCallback((): void => {
+        resetTranscriptRef.current?.();
+        setTranscript('');
+        setInterimTranscript('');
+    }, []);
+
+    const clearCredentials = useCallback(async (): Promise<void> => {
+        await clientRef.current?.clearCredentials();
+    }, []);
+
+    return {
+        isListening,
+        isActivelySpeaking,
+        isReconnecting,
+        isPaused,
+        silenceCountdown,
+        browserSupported,
+        error,
+        transcript,
+        interimTranscript,
+        start,
+        stop,
+        toggle,
+        pause,
+        resume,
+        reset,
+        clearCredentials
+    };
+};
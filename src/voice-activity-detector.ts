@@ -0,0 +1,184 @@
+export interface VoiceActivityDetector {
+    /**
+     * Returns true when the buffer contains speech
+     */
+    detect(samples: Float32Array, sampleRate: number): boolean;
+
+    /**
+     * Clears any state learned during a previous session. Called on every start()
+     */
+    reset?(): void;
+}
+
+export interface AdaptiveVoiceActivityDetectorOptions {
+    calibrationDuration?: number;
+    energyRatio?: number;
+    minEnergy?: number;
+    minBandRatio?: number;
+    minZeroCrossingRate?: number;
+    maxZeroCrossingRate?: number;
+    noiseAdaptationRate?: number;
+    bandLowHz?: number;
+    bandHighHz?: number;
+}
+
+// Defaults for the adaptive detector
+const CALIBRATION_DURATION = 1000; // Audio used to learn the noise floor after reset (ms)
+const ENERGY_RATIO = 4; // Speech band energy must exceed the noise floor by this factor (~6 dB)
+const MIN_ENERGY = 1e-5; // Absolute band energy below which nothing counts as speech
+const MIN_BAND_RATIO = 0.3; // Share of the buffer energy that must fall inside the speech band
+const MIN_ZERO_CROSSING_RATE = 0.01; // Crossings per sample; lower is hum or DC drift
+const MAX_ZERO_CROSSING_RATE = 0.4; // Crossings per sample; higher is hiss or clicks
+const NOISE_ADAPTATION_RATE = 0.05; // How fast the noise floor follows non-speech buffers
+const BAND_LOW_HZ = 300;
+const BAND_HIGH_HZ = 3400;
+
+/**
+ * Fixed threshold on the root mean square of the buffer. This is the default detector
+ */
+export class RMSVoiceActivityDetector implements VoiceActivityDetector {
+    readonly threshold: number;
+
+    constructor(threshold: number) {
+        this.threshold = threshold;
+    }
+
+    detect(samples: Float32Array): boolean {
+        if (samples.length === 0) return false;
+
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) {
+            sum += samples[i] * samples[i];
+        }
+        return Math.sqrt(sum / samples.length) > this.threshold;
+    }
+}
+
+/**
+ * Detector for noisy environments. It learns the noise floor during a calibration period after
+ * reset() and keeps tracking it, then requires speech-band energy well above that floor and a
+ * zero-crossing rate typical for voice
+ */
+export class AdaptiveVoiceActivityDetector implements VoiceActivityDetector {
+    private readonly options: Required<AdaptiveVoiceActivityDetectorOptions>;
+    private sampleRate: number;
+    private highPassAlpha: number;
+    private lowPassAlpha: number;
+    private previousInput: number;
+    private highPassOutput: number;
+    private lowPassOutput: number;
+    private calibrationSamples: number;
+    private calibrationEnergy: number;
+    private calibrationFrames: number;
+    private noiseFloor: number | null;
+
+    constructor(options: AdaptiveVoiceActivityDetectorOptions = {}) {
+        this.options = {
+            calibrationDuration: options.calibrationDuration ?? CALIBRATION_DURATION,
+            energyRatio: options.energyRatio ?? ENERGY_RATIO,
+            minEnergy: options.minEnergy ?? MIN_ENERGY,
+            minBandRatio: options.minBandRatio ?? MIN_BAND_RATIO,
+            minZeroCrossingRate: options.minZeroCrossingRate ?? MIN_ZERO_CROSSING_RATE,
+            maxZeroCrossingRate: options.maxZeroCrossingRate ?? MAX_ZERO_CROSSING_RATE,
+            noiseAdaptationRate: options.noiseAdaptationRate ?? NOISE_ADAPTATION_RATE,
+            bandLowHz: options.bandLowHz ?? BAND_LOW_HZ,
+            bandHighHz: options.bandHighHz ?? BAND_HIGH_HZ
+        };
+
+        this.sampleRate = 0;
+        this.highPassAlpha = 0;
+        this.lowPassAlpha = 0;
+        this.previousInput = 0;
+        this.highPassOutput = 0;
+        this.lowPassOutput = 0;
+        this.calibrationSamples = 0;
+        this.calibrationEnergy = 0;
+        this.calibrationFrames = 0;
+        this.noiseFloor = null;
+    }
+
+    reset(): void {
+        this.previousInput = 0;
+        this.highPassOutput = 0;
+        this.lowPassOutput = 0;
+        this.calibrationSamples = 0;
+        this.calibrationEnergy = 0;
+        this.calibrationFrames = 0;
+        this.noiseFloor = null;
+    }
+
+    /**
+     * Current noise floor estimate, or null while still calibrating
+     */
+    getNoiseFloor(): number | null {
+        return this.noiseFloor;
+    }
+
+    detect(samples: Float32Array, sampleRate: number): boolean {
+        if (samples.length === 0) return false;
+        this._configureFilters(sampleRate);
+
+        let totalEnergy = 0;
+        let bandEnergy = 0;
+        let zeroCrossings = 0;
+
+        for (let i = 0; i < samples.length; i++) {
+            const sample = samples[i];
+            totalEnergy += sample * sample;
+
+            if (i > 0 && (sample >= 0) !== (samples[i - 1] >= 0)) {
+                zeroCrossings++;
+            }
+
+            // One-pole high-pass followed by one-pole low-pass isolates the speech band
+            this.highPassOutput = this.highPassAlpha * (this.highPassOutput + sample - this.previousInput);
+            this.previousInput = sample;
+            this.lowPassOutput += this.lowPassAlpha * (this.highPassOutput - this.lowPassOutput);
+            bandEnergy += this.lowPassOutput * this.lowPassOutput;
+        }
+
+        totalEnergy /= samples.length;
+        bandEnergy /= samples.length;
+        const zeroCrossingRate = zeroCrossings / samples.length;
+
+        if (this.noiseFloor === null) {
+            this._calibrate(bandEnergy, samples.length);
+            return false;
+        }
+
+        const isSpeech = bandEnergy > this.options.minEnergy
+            && bandEnergy > this.noiseFloor * this.options.energyRatio
+            && bandEnergy >= totalEnergy * this.options.minBandRatio
+            && zeroCrossingRate >= this.options.minZeroCrossingRate
+            && zeroCrossingRate <= this.options.maxZeroCrossingRate;
+
+        // Follow the noise floor closely during pauses, and only creep upwards during speech so a
+        // permanent rise in background noise is eventually absorbed
+        const rate = isSpeech ? this.options.noiseAdaptationRate / 20 : this.options.noiseAdaptationRate;
+        this.noiseFloor += (bandEnergy - this.noiseFloor) * rate;
+
+        return isSpeech;
+    }
+
+    private _calibrate(bandEnergy: number, length: number): void {
+        this.calibrationEnergy += bandEnergy;
+        this.calibrationFrames++;
+        this.calibrationSamples += length;
+
+        if (this.calibrationSamples >= this.sampleRate * this.options.calibrationDuration / 1000) {
+            this.noiseFloor = this.calibrationEnergy / this.calibrationFrames;
+        }
+    }
+
+    private _configureFilters(sampleRate: number): void {
+        if (sampleRate === this.sampleRate) return;
+
+        const dt = 1 / sampleRate;
+        const highPassRC = 1 / (2 * Math.PI * this.options.bandLowHz);
+        const lowPassRC = 1 / (2 * Math.PI * this.options.bandHighHz);
+
+        this.sampleRate = sampleRate;
+        this.highPassAlpha = highPassRC / (highPassRC + dt);
+        this.lowPassAlpha = dt / (lowPassRC + dt);
+    }
+}
@@ -0,0 +1,68 @@
+import { PCMRingBuffer } from './pcm-ring-buffer';
+
+export interface VoiceActivityGateOptions {
+    sampleRate: number;
+    channelCount: number;
+    preRollDuration: number;
+    hangoverDuration: number;
+    // Receives the audio that passes the gate
+    send: (pcmData: Int16Array) => void;
+}
+
+const KEEP_ALIVE_INTERVAL = 10000; // AWS closes streams that receive no audio for 15 seconds (ms)
+
+/**
+ * Only lets audio through while voice activity was detected recently. Keeps a pre-roll of the audio
+ * preceding speech, a hangover after it, and sends silence now and then so the stream stays open.
+ * Times are passed in by the caller: the wall clock for live capture, the audio position for files
+ */
+export class VoiceActivityGate {
+    private readonly options: VoiceActivityGateOptions;
+    private preRollBuffer: PCMRingBuffer;
+    private lastVoiceTime: number | null;
+    private lastSentTime: number;
+
+    constructor(options: VoiceActivityGateOptions) {
+        this.options = options;
+        this.preRollBuffer = new PCMRingBuffer(0);
+        this.lastVoiceTime = null;
+        this.lastSentTime = 0;
+    }
+
+    reset(now: number): void {
+        const { sampleRate, channelCount, preRollDuration } = this.options;
+        this.preRollBuffer = new PCMRingBuffer(Math.round(sampleRate * preRollDuration / 1000) * channelCount);
+        this.lastVoiceTime = null;
+        this.lastSentTime = now;
+    }
+
+    clear(): void {
+        this.preRollBuffer.clear();
+        this.lastVoiceTime = null;
+    }
+
+    process(pcmData: Int16Array, hasVoice: boolean, now: number): void {
+        if (hasVoice) {
+            this.lastVoiceTime = now;
+        }
+
+        const gateOpen = this.lastVoiceTime !== null && now - this.lastVoiceTime <= this.options.hangoverDuration;
+        if (gateOpen) {
+            // Flush the pre-roll first so the onset of speech that preceded the trigger isn't lost
+            this.preRollBuffer.drain().forEach(chunk => this._send(chunk, now));
+            this._send(pcmData, now);
+            return;
+        }
+
+        this.preRollBuffer.push(pcmData);
+
+        if (now - this.lastSentTime >= KEEP_ALIVE_INTERVAL) {
+            this._send(new Int16Array(pcmData.length), now);
+        }
+    }
+
+    private _send(pcmData: Int16Array, now: number): void {
+        this.lastSentTime = now;
+        this.options.send(pcmData);
+    }
+}
@@ -0,0 +1,115 @@
+import { AudioFormatError } from './errors';
+
+export interface DecodedAudio {
+    sampleRate: number;
+    // One array per channel with samples between -1 and 1
+    channels: Float32Array[];
+}
+
+// Format tags in the fmt chunk
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const readTag = (view: DataView, offset: number): string => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+);
+
+const toDataView = (data: ArrayBuffer | ArrayBufferView): DataView => ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+
+// Reads one sample of the given format and size (bytes) as a float between -1 and 1
+const readSample = (view: DataView, offset: number, format: number, size: number): number => {
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+        return size === 8 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+    }
+    switch (size) {
+        case 1:
+            // 8-bit WAV is the only unsigned format
+            return (view.getUint8(offset) - 128) / 128;
+        case 2:
+            return view.getInt16(offset, true) / 32768;
+        case 3:
+            return ((view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset)) / 8388608;
+        default:
+            return view.getInt32(offset, true) / 2147483648;
+    }
+};
+
+/**
+ * True when the data starts with a RIFF/WAVE header
+ */
+export const isWav = (data: ArrayBuffer | ArrayBufferView): boolean => {
+    const view = toDataView(data);
+    return view.byteLength >= 12 && readTag(view, 0) === 'RIFF' && readTag(view, 8) === 'WAVE';
+};
+
+/**
+ * Decodes a WAV file with integer PCM (8, 16, 24 or 32 bit) or float samples. Works without Web Audio,
+ * so it can be used in Node as well as in the browser
+ */
+export const parseWav = (data: ArrayBuffer | ArrayBufferView): DecodedAudio => {
+    const view = toDataView(data);
+    if (!isWav(view)) {
+        throw new AudioFormatError('Not a WAV file');
+    }
+
+    let format = 0;
+    let channelCount = 0;
+    let sampleRate = 0;
+    let blockAlign = 0;
+    let sampleSize = 0;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    // Walk the chunks; each is padded to an even length
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+        const tag = readTag(view, offset);
+        const length = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (tag === 'fmt ') {
+            format = view.getUint16(body, true);
+            channelCount = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            blockAlign = view.getUint16(body + 12, true);
+            sampleSize = view.getUint16(body + 14, true) / 8;
+            if (format === WAVE_FORMAT_EXTENSIBLE && length >= 26) {
+                // The actual format is the first two bytes of the sub-format GUID
+                format = view.getUint16(body + 24, true);
+            }
+        } else if (tag === 'data') {
+            dataOffset = body;
+            // Streamed WAV files may carry a placeholder length, so stop at the end of the data
+            dataLength = Math.min(length, view.byteLength - body);
+            break;
+        }
+
+        offset = body + length + (length % 2);
+    }
+
+    if (!channelCount || !sampleRate || dataOffset < 0) {
+        throw new AudioFormatError('WAV file is missing its fmt or data chunk');
+    }
+    const isInteger = format === WAVE_FORMAT_PCM && [1, 2, 3, 4].includes(sampleSize);
+    const isFloat = format === WAVE_FORMAT_IEEE_FLOAT && [4, 8].includes(sampleSize);
+    if (!isInteger && !isFloat) {
+        throw new AudioFormatError(`Unsupported WAV encoding (format ${format}, ${sampleSize * 8} bit)`);
+    }
+
+    // Samples of a frame may be padded (e.g. 20-bit in 24-bit containers), so frames are blockAlign apart
+    const stride = blockAlign || sampleSize * channelCount;
+    const frames = Math.floor(dataLength / stride);
+    const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+
+    for (let i = 0; i < frames; i++) {
+        const frame = dataOffset + i * stride;
+        for (let channel = 0; channel < channelCount; channel++) {
+            channels[channel][i] = readSample(view, frame + channel * sampleSize, format, sampleSize);
+        }
+    }
+
+    return { sampleRate, channels };
+};